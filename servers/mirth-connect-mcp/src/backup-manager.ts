@@ -6,7 +6,7 @@ import { BackupConfig } from './config.js';
 export interface BackupMetadata {
   id: string;
   timestamp: string;
-  type: 'channel' | 'codeTemplate' | 'codeTemplateLibrary' | 'globalScripts' | 'full';
+  type: 'channel' | 'codeTemplate' | 'codeTemplateLibrary' | 'globalScripts' | 'full' | 'messages' | 'channelGroups' | 'alert' | 'channelDependencies' | 'channelTags' | 'resources' | 'configurationMap';
   resourceId: string;
   resourceName: string;
   description?: string;
@@ -18,6 +18,27 @@ export interface BackupInfo {
   path: string;
 }
 
+export interface StatisticsCounters {
+  received: number;
+  filtered: number;
+  sent: number;
+  error: number;
+  queued?: number;
+}
+
+export interface StatisticsSnapshot {
+  id: string;
+  timestamp: string;
+  reason: string;
+  clearedCounters: string[];
+  channels: {
+    channelId: string;
+    channelName: string;
+    totals: StatisticsCounters;
+    connectors: ({ metaDataId: number; name: string } & StatisticsCounters)[];
+  }[];
+}
+
 export class BackupManager {
   private backupDir: string;
   private maxVersions: number;
@@ -34,6 +55,13 @@ export class BackupManager {
     await fs.mkdir(path.join(this.backupDir, 'codeTemplateLibraries'), { recursive: true });
     await fs.mkdir(path.join(this.backupDir, 'globalScripts'), { recursive: true });
     await fs.mkdir(path.join(this.backupDir, 'full'), { recursive: true });
+    await fs.mkdir(path.join(this.backupDir, 'messages'), { recursive: true });
+    await fs.mkdir(path.join(this.backupDir, 'channelGroups'), { recursive: true });
+    await fs.mkdir(path.join(this.backupDir, 'alerts'), { recursive: true });
+    await fs.mkdir(path.join(this.backupDir, 'channelDependencies'), { recursive: true });
+    await fs.mkdir(path.join(this.backupDir, 'channelTags'), { recursive: true });
+    await fs.mkdir(path.join(this.backupDir, 'resources'), { recursive: true });
+    await fs.mkdir(path.join(this.backupDir, 'configurationMap'), { recursive: true });
   }
 
   private generateBackupId(): string {
@@ -46,7 +74,14 @@ export class BackupManager {
       codeTemplate: 'codeTemplates',
       codeTemplateLibrary: 'codeTemplateLibraries',
       globalScripts: 'globalScripts',
-      full: 'full'
+      full: 'full',
+      messages: 'messages',
+      channelGroups: 'channelGroups',
+      alert: 'alerts',
+      channelDependencies: 'channelDependencies',
+      channelTags: 'channelTags',
+      resources: 'resources',
+      configurationMap: 'configurationMap'
     };
     return path.join(this.backupDir, dirs[type]);
   }
@@ -55,14 +90,14 @@ export class BackupManager {
     return name.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 50);
   }
 
-  private simpleChecksum(content: string): string {
-    let hash = 0;
+  // Running hash so large backups can be checksummed chunk by chunk
+  private updateChecksum(hash: number, content: string): number {
     for (let i = 0; i < content.length; i++) {
       const char = content.charCodeAt(i);
       hash = ((hash << 5) - hash) + char;
       hash = hash & hash;
     }
-    return Math.abs(hash).toString(16);
+    return hash;
   }
 
   async createBackup(
@@ -71,23 +106,23 @@ export class BackupManager {
     resourceName: string,
     content: string,
     description?: string
+  ): Promise<BackupInfo> {
+    return this.createBackupFromChunks(type, resourceId, resourceName, append => append(content), description);
+  }
+
+  // Writes the content as it is produced, so large backups (e.g. messages) never sit in memory at once
+  async createBackupFromChunks(
+    type: BackupMetadata['type'],
+    resourceId: string,
+    resourceName: string,
+    writeContent: (append: (chunk: string) => Promise<void>) => Promise<void>,
+    description?: string
   ): Promise<BackupInfo> {
     await this.initialize();
 
     const timestamp = new Date().toISOString();
     const backupId = this.generateBackupId();
     const safeName = this.sanitizeName(resourceName);
-    const checksum = this.simpleChecksum(content);
-
-    const metadata: BackupMetadata = {
-      id: backupId,
-      timestamp,
-      type,
-      resourceId,
-      resourceName,
-      description,
-      checksum
-    };
 
     const typeDir = this.getTypeDir(type);
     const resourceDir = path.join(typeDir, `${resourceId}_${safeName}`);
@@ -97,7 +132,29 @@ export class BackupManager {
     const contentPath = path.join(resourceDir, `${backupFileName}.xml`);
     const metadataPath = path.join(resourceDir, `${backupFileName}.meta.json`);
 
-    await fs.writeFile(contentPath, content, 'utf-8');
+    let hash = 0;
+    const file = await fs.open(contentPath, 'w');
+    try {
+      await writeContent(async chunk => {
+        hash = this.updateChecksum(hash, chunk);
+        await file.write(chunk, null, 'utf-8');
+      });
+    } catch (error) {
+      await file.close();
+      await fs.unlink(contentPath).catch(() => {});
+      throw error;
+    }
+    await file.close();
+
+    const metadata: BackupMetadata = {
+      id: backupId,
+      timestamp,
+      type,
+      resourceId,
+      resourceName,
+      description,
+      checksum: Math.abs(hash).toString(16)
+    };
     await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
 
     // Cleanup old versions
@@ -130,7 +187,7 @@ export class BackupManager {
 
     const types: BackupMetadata['type'][] = type
       ? [type]
-      : ['channel', 'codeTemplate', 'codeTemplateLibrary', 'globalScripts', 'full'];
+      : ['channel', 'codeTemplate', 'codeTemplateLibrary', 'globalScripts', 'full', 'messages', 'channelGroups', 'alert', 'channelDependencies', 'channelTags', 'resources', 'configurationMap'];
 
     for (const t of types) {
       const typeDir = this.getTypeDir(t);
@@ -211,6 +268,47 @@ export class BackupManager {
     }
   }
 
+  // Statistics snapshots are appended to a JSON-lines history file and never rotated
+  private getStatisticsHistoryPath(): string {
+    return path.join(this.backupDir, 'statistics-history.jsonl');
+  }
+
+  async recordStatisticsSnapshot(snapshot: Omit<StatisticsSnapshot, 'id' | 'timestamp'>): Promise<StatisticsSnapshot> {
+    await this.initialize();
+    const entry: StatisticsSnapshot = {
+      id: `stats_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      ...snapshot
+    };
+    await fs.appendFile(this.getStatisticsHistoryPath(), JSON.stringify(entry) + '\n', 'utf-8');
+    return entry;
+  }
+
+  async getStatisticsHistory(channelId?: string): Promise<StatisticsSnapshot[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getStatisticsHistoryPath(), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const snapshots: StatisticsSnapshot[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const snapshot = JSON.parse(line) as StatisticsSnapshot;
+        if (channelId) {
+          snapshot.channels = snapshot.channels.filter(c => c.channelId === channelId);
+          if (snapshot.channels.length === 0) continue;
+        }
+        snapshots.push(snapshot);
+      } catch {
+        // Skip corrupt lines
+      }
+    }
+    return snapshots.reverse();
+  }
+
   async compareBackups(backupId1: string, backupId2: string): Promise<{
     backup1: BackupMetadata;
     backup2: BackupMetadata;
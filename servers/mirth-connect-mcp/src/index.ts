@@ -18,11 +18,12 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { loadConfig, ServerConfig } from './config.js';
-import { MirthClient } from './mirth-client.js';
-import { BackupManager } from './backup-manager.js';
+import { MirthClient, ChannelGroup, ChannelDependency, ChannelTag, ChannelStatistics, ConnectorMessage, MessageFilter, MetaDataSearchElement, WsdlLocation, ChannelInitialState, User, USER_FIELDS, escapeXml, unescapeXml } from './mirth-client.js';
+import { BackupManager, BackupMetadata, StatisticsCounters, StatisticsSnapshot } from './backup-manager.js';
 import { datasetManager, DatasetQuery } from './dataset-manager.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 
 // Pending confirmations for destructive operations
 const pendingConfirmations = new Map<string, {
@@ -31,12 +32,186 @@ const pendingConfirmations = new Map<string, {
   expiresAt: number;
 }>();
 
+// ServerConfiguration sections holding lists of id/name items
+const CONFIGURATION_LIST_SECTIONS = ['channels', 'channelGroups', 'channelTags', 'codeTemplateLibraries', 'alerts', 'users'];
+
+// Configuration map keys whose values are masked in tool responses
+const SECRET_KEY_PATTERN = /pass(word|wd)?|pwd|secret|token|api[-_.]?key|credential|private[-_.]?key/i;
+
+// Thresholds for the mirth_server_health verdict
+const HEALTH_THRESHOLDS = {
+  heapWarningPct: 85,
+  heapCriticalPct: 95,
+  diskWarningPct: 90,
+  diskCriticalPct: 98,
+  cpuWarningPct: 90,
+  clockSkewWarningMs: 30_000,
+};
+
+const BULK_CHANNEL_OPERATIONS = ['deploy', 'undeploy', 'start', 'stop', 'restart', 'pause', 'resume', 'enable', 'disable', 'redeployAll'] as const;
+
+// Message counters that can be cleared individually
+const STATISTICS_COUNTERS = ['received', 'filtered', 'sent', 'error'];
+
+// Channel selector input properties shared by the bulk channel tools
+const CHANNEL_SELECTOR_PROPERTIES = {
+  channelIds: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Explicit channel IDs',
+  },
+  namePattern: {
+    type: 'string',
+    description: 'Channel name glob (e.g. "ADT*", case-insensitive) or /regex/flags',
+  },
+  tag: {
+    type: 'string',
+    description: 'Channel tag name or ID',
+  },
+  group: {
+    type: 'string',
+    description: 'Channel group name or ID',
+  },
+};
+
+// User profile input properties shared by the create and update tools
+const USER_PROPERTIES = {
+  username: { type: 'string', description: 'Login name' },
+  firstName: { type: 'string', description: 'First name' },
+  lastName: { type: 'string', description: 'Last name' },
+  email: { type: 'string', description: 'Email address' },
+  organization: { type: 'string', description: 'Organization' },
+  description: { type: 'string', description: 'Description, e.g. team or ticket reference' },
+  phoneNumber: { type: 'string', description: 'Phone number' },
+  industry: { type: 'string', description: 'Industry' },
+  role: { type: 'string', description: 'Role' },
+  country: { type: 'string', description: 'Country' },
+  stateTerritory: { type: 'string', description: 'State or territory' },
+};
+
+// Database task run started from this session
+interface DatabaseTaskRun {
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  result?: string;
+  error?: string;
+}
+
+// MessageFilter input properties shared by the search, reprocess, export and remove tools
+const MESSAGE_FILTER_PROPERTIES = {
+  statuses: {
+    type: 'array',
+    items: {
+      type: 'string',
+      enum: ['RECEIVED', 'FILTERED', 'TRANSFORMED', 'SENT', 'QUEUED', 'ERROR', 'PENDING'],
+    },
+    description: 'Only match connector messages with one of these statuses',
+  },
+  startDate: {
+    type: 'string',
+    description: 'Received on or after this date (ISO format)',
+  },
+  endDate: {
+    type: 'string',
+    description: 'Received on or before this date (ISO format)',
+  },
+  minMessageId: {
+    type: 'number',
+    description: 'Lowest message ID (inclusive)',
+  },
+  maxMessageId: {
+    type: 'number',
+    description: 'Highest message ID (inclusive)',
+  },
+  textSearch: {
+    type: 'string',
+    description: 'Text searched across message content, and the metadata columns named in textSearchMetaDataColumns',
+  },
+  textSearchRegex: {
+    type: 'boolean',
+    description: 'Treat textSearch as a regular expression',
+  },
+  textSearchMetaDataColumns: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Custom metadata columns textSearch also looks in (e.g. ["SOURCE", "TYPE"])',
+  },
+  contentSearch: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        contentType: {
+          type: 'string',
+          enum: ['RAW', 'PROCESSED_RAW', 'TRANSFORMED', 'ENCODED', 'SENT', 'RESPONSE', 'RESPONSE_TRANSFORMED',
+            'PROCESSED_RESPONSE', 'CONNECTOR_MAP', 'CHANNEL_MAP', 'RESPONSE_MAP', 'PROCESSING_ERROR',
+            'POSTPROCESSOR_ERROR', 'RESPONSE_ERROR', 'SOURCE_MAP'],
+        },
+        value: { type: 'string' },
+      },
+      required: ['contentType', 'value'],
+    },
+    description: 'Search specific content types, e.g. [{"contentType": "RAW", "value": "PID|1||12345"}]',
+  },
+  metaDataSearch: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        columnName: { type: 'string' },
+        operator: {
+          type: 'string',
+          enum: ['EQUAL', 'NOT_EQUAL', 'LESS_THAN', 'LESS_THAN_OR_EQUAL', 'GREATER_THAN', 'GREATER_THAN_OR_EQUAL',
+            'CONTAINS', 'DOES_NOT_CONTAIN', 'STARTS_WITH', 'DOES_NOT_START_WITH', 'ENDS_WITH', 'DOES_NOT_END_WITH'],
+        },
+        value: { type: ['string', 'number', 'boolean'] },
+        ignoreCase: { type: 'boolean' },
+      },
+      required: ['columnName', 'operator', 'value'],
+    },
+    description: 'Conditions on custom metadata columns, e.g. [{"columnName": "SOURCE", "operator": "EQUAL", "value": "LAB"}]',
+  },
+  includedMetaDataIds: {
+    type: 'array',
+    items: { type: 'number' },
+    description: 'Only search these connectors (0 = source, 1+ = destinations)',
+  },
+  excludedMetaDataIds: {
+    type: 'array',
+    items: { type: 'number' },
+    description: 'Exclude these connectors from the search',
+  },
+  errorOnly: {
+    type: 'boolean',
+    description: 'Only match messages with a processing, postprocessor or response error',
+  },
+  hasAttachment: {
+    type: 'boolean',
+    description: 'Only match messages with attachments',
+  },
+};
+
+// Connector properties class -> connection test endpoint under /connectors
+const CONNECTOR_TESTS: Record<string, string> = {
+  'com.mirth.connect.connectors.tcp.TcpDispatcherProperties': 'tcp/_testConnection',
+  'com.mirth.connect.connectors.http.HttpDispatcherProperties': 'http/_testConnection',
+  'com.mirth.connect.connectors.file.FileReceiverProperties': 'file/_testRead',
+  'com.mirth.connect.connectors.file.FileDispatcherProperties': 'file/_testWrite',
+  'com.mirth.connect.connectors.smtp.SmtpDispatcherProperties': 'smtp/_sendTestEmail',
+  'com.mirth.connect.connectors.ws.WebServiceDispatcherProperties': 'ws/_testConnection',
+  'com.mirth.connect.connectors.jdbc.DatabaseReceiverProperties': 'jdbc/_getTables',
+  'com.mirth.connect.connectors.jdbc.DatabaseDispatcherProperties': 'jdbc/_getTables',
+};
+
 class MirthConnectMCPServer {
   private server: Server;
   private config: ServerConfig;
   private mirthClient: MirthClient;
   private backupManager: BackupManager;
   private isConnected: boolean = false;
+  // Database task runs started from this session (the run request blocks until the task finishes)
+  private databaseTaskRuns = new Map<string, DatabaseTaskRun>();
 
   constructor() {
     this.config = loadConfig();
@@ -123,6 +298,14 @@ class MirthConnectMCPServer {
           properties: {},
         },
       },
+      {
+        name: 'mirth_server_health',
+        description: 'Check server health: CPU, heap and disk usage, JVM/OS/database info, server version and build, clock skew against this host, and channel counts by state. Returns a single verdict (healthy, warning, critical) with warnings.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
 
       // === Channel Management Tools ===
       {
@@ -221,8 +404,8 @@ class MirthConnectMCPServer {
         },
       },
       {
-        name: 'mirth_update_channel',
-        description: 'Update a channel configuration. ALWAYS creates a backup before updating. Requires confirmation.',
+        name: 'mirth_pause_channel',
+        description: 'Pause a running channel. The source stops accepting messages while queued destination messages keep processing.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -230,21 +413,27 @@ class MirthConnectMCPServer {
               type: 'string',
               description: 'The channel ID',
             },
-            channelXml: {
-              type: 'string',
-              description: 'The complete channel XML configuration',
-            },
-            confirmationToken: {
+          },
+          required: ['channelId'],
+        },
+      },
+      {
+        name: 'mirth_resume_channel',
+        description: 'Resume a paused channel.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
               type: 'string',
-              description: 'Confirmation token from a previous call (for safety)',
+              description: 'The channel ID',
             },
           },
-          required: ['channelId', 'channelXml'],
+          required: ['channelId'],
         },
       },
       {
-        name: 'mirth_delete_channel',
-        description: 'Delete a channel. ALWAYS creates a backup before deletion. Requires double confirmation.',
+        name: 'mirth_halt_channel',
+        description: 'Forcefully halt a channel stuck while stopping or processing. In-flight messages may be interrupted. Requires confirmation.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -254,98 +443,95 @@ class MirthConnectMCPServer {
             },
             confirmationToken: {
               type: 'string',
-              description: 'Confirmation token from a previous call (for safety)',
+              description: 'Confirmation token (required if confirmation is enabled)',
             },
           },
           required: ['channelId'],
         },
       },
-
-      // === Code Template Tools ===
       {
-        name: 'mirth_list_code_templates',
-        description: 'List all code template libraries and their templates.',
+        name: 'mirth_list_connectors',
+        description: 'List the connectors of a channel (metaDataId and name) with their current state when deployed.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+          },
+          required: ['channelId'],
         },
       },
       {
-        name: 'mirth_get_code_template',
-        description: 'Get a specific code template with its code.',
+        name: 'mirth_start_connector',
+        description: 'Start a single connector of a deployed channel, identified by metaDataId or name.',
         inputSchema: {
           type: 'object',
           properties: {
-            templateId: {
+            channelId: {
               type: 'string',
-              description: 'The code template ID',
+              description: 'The channel ID',
             },
-            format: {
+            metaDataId: {
+              type: 'number',
+              description: 'Connector metaDataId (0 = source)',
+            },
+            connectorName: {
               type: 'string',
-              enum: ['json', 'xml'],
-              description: 'Output format',
-              default: 'json',
+              description: 'Connector name (alternative to metaDataId)',
             },
           },
-          required: ['templateId'],
+          required: ['channelId'],
         },
       },
       {
-        name: 'mirth_get_code_template_library',
-        description: 'Get a code template library with all its templates.',
+        name: 'mirth_stop_connector',
+        description: 'Stop a single connector of a deployed channel, identified by metaDataId or name. Stopping a destination lets the source keep queueing messages for it.',
         inputSchema: {
           type: 'object',
           properties: {
-            libraryId: {
+            channelId: {
               type: 'string',
-              description: 'The code template library ID',
+              description: 'The channel ID',
             },
-            format: {
+            metaDataId: {
+              type: 'number',
+              description: 'Connector metaDataId (0 = source)',
+            },
+            connectorName: {
               type: 'string',
-              enum: ['json', 'xml'],
-              description: 'Output format',
-              default: 'json',
+              description: 'Connector name (alternative to metaDataId)',
             },
           },
-          required: ['libraryId'],
+          required: ['channelId'],
         },
       },
-
-      // === Troubleshooting Tools ===
       {
-        name: 'mirth_get_events',
-        description: 'Get server events/logs for troubleshooting. Can filter by level, date range, and more.',
+        name: 'mirth_update_channel',
+        description: 'Update a channel configuration. ALWAYS creates a backup before updating. Requires confirmation.',
         inputSchema: {
           type: 'object',
           properties: {
-            level: {
-              type: 'string',
-              enum: ['INFORMATION', 'WARNING', 'ERROR'],
-              description: 'Filter by event level',
-            },
-            startDate: {
+            channelId: {
               type: 'string',
-              description: 'Start date in ISO format (e.g., 2024-01-01T00:00:00)',
+              description: 'The channel ID',
             },
-            endDate: {
+            channelXml: {
               type: 'string',
-              description: 'End date in ISO format',
+              description: 'The complete channel XML configuration',
             },
-            name: {
+            confirmationToken: {
               type: 'string',
-              description: 'Filter by event name',
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of events to return',
-              default: 50,
+              description: 'Confirmation token from a previous call (for safety)',
             },
           },
+          required: ['channelId', 'channelXml'],
         },
       },
       {
-        name: 'mirth_get_channel_messages',
-        description: 'Get messages for a channel to debug message processing issues.',
+        name: 'mirth_delete_channel',
+        description: 'Delete a channel. ALWAYS creates a backup before deletion. Requires double confirmation.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -353,72 +539,65 @@ class MirthConnectMCPServer {
               type: 'string',
               description: 'The channel ID',
             },
-            status: {
-              type: 'string',
-              enum: ['RECEIVED', 'TRANSFORMED', 'FILTERED', 'QUEUED', 'SENT', 'ERROR'],
-              description: 'Filter by message status',
-            },
-            startDate: {
-              type: 'string',
-              description: 'Start date in ISO format',
-            },
-            endDate: {
+            confirmationToken: {
               type: 'string',
-              description: 'End date in ISO format',
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of messages to return',
-              default: 20,
-            },
-            includeContent: {
-              type: 'boolean',
-              description: 'Include message content (raw, transformed, encoded)',
-              default: false,
+              description: 'Confirmation token from a previous call (for safety)',
             },
           },
           required: ['channelId'],
         },
       },
+
       {
-        name: 'mirth_get_message_content',
-        description: 'Get detailed content of a specific message including raw, transformed, and encoded data.',
+        name: 'mirth_bulk_channel_operation',
+        description: 'Run a lifecycle operation on many channels at once through the batch endpoints, selected by name pattern, tag, group and/or explicit IDs (criteria are combined with AND). The first call previews the selection and returns a confirmation token; the result reports success or failure per channel.',
         inputSchema: {
           type: 'object',
           properties: {
-            channelId: {
+            operation: {
               type: 'string',
-              description: 'The channel ID',
+              enum: BULK_CHANNEL_OPERATIONS,
+              description: 'deploy, undeploy, start, stop, restart (stop then start), pause, resume, enable, disable, or redeployAll (every channel; ignores the selector)',
             },
-            messageId: {
-              type: 'number',
-              description: 'The message ID',
+            ...CHANNEL_SELECTOR_PROPERTIES,
+            backup: {
+              type: 'boolean',
+              description: 'Back up every selected channel before running the operation (default: false)',
             },
-            metaDataId: {
+            waitSeconds: {
               type: 'number',
-              description: 'The connector metadata ID (0 for source, 1+ for destinations)',
-              default: 0,
+              description: 'How long to wait for channels to reach the expected state (default: 60)',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
             },
           },
-          required: ['channelId', 'messageId'],
+          required: ['operation'],
         },
       },
+
       {
-        name: 'mirth_get_channel_statistics',
-        description: 'Get message statistics for channels (received, sent, error, filtered, queued counts).',
+        name: 'mirth_set_channel_enabled',
+        description: 'Enable or disable a channel. Disabled channels can\'t be deployed; disabling does not undeploy a running channel. Use mirth_bulk_channel_operation to change many channels.',
         inputSchema: {
           type: 'object',
           properties: {
             channelId: {
               type: 'string',
-              description: 'Optional channel ID. If not provided, returns stats for all channels.',
+              description: 'The channel ID',
+            },
+            enabled: {
+              type: 'boolean',
+              description: 'true to enable, false to disable',
             },
           },
+          required: ['channelId', 'enabled'],
         },
       },
       {
-        name: 'mirth_reprocess_message',
-        description: 'Reprocess a message that failed or needs to be sent again.',
+        name: 'mirth_set_channel_initial_state',
+        description: 'Set the state a channel starts in when deployed (STARTED, PAUSED or STOPPED). Takes effect on the next deploy.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -426,1180 +605,5469 @@ class MirthConnectMCPServer {
               type: 'string',
               description: 'The channel ID',
             },
-            messageId: {
-              type: 'number',
-              description: 'The message ID to reprocess',
-            },
-            replace: {
-              type: 'boolean',
-              description: 'Replace the existing message instead of creating a new one',
-              default: false,
+            initialState: {
+              type: 'string',
+              enum: ['STARTED', 'PAUSED', 'STOPPED'],
+              description: 'The initial state',
             },
           },
-          required: ['channelId', 'messageId'],
+          required: ['channelId', 'initialState'],
         },
       },
-
-      // === Global Scripts & Configuration ===
       {
-        name: 'mirth_get_global_scripts',
-        description: 'Get global deploy/undeploy/preprocessor/postprocessor scripts.',
+        name: 'mirth_set_channels_initial_state',
+        description: 'Set the initial deploy state of many channels selected by name pattern, tag, group and/or explicit IDs (criteria are combined with AND). The first call previews the selection with current initial states and returns a confirmation token.',
         inputSchema: {
           type: 'object',
           properties: {
-            format: {
+            initialState: {
               type: 'string',
-              enum: ['json', 'xml'],
-              description: 'Output format',
-              default: 'json',
+              enum: ['STARTED', 'PAUSED', 'STOPPED'],
+              description: 'The initial state',
+            },
+            ...CHANNEL_SELECTOR_PROPERTIES,
+            backup: {
+              type: 'boolean',
+              description: 'Back up every selected channel first (default: false)',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
             },
           },
+          required: ['initialState'],
         },
       },
+
       {
-        name: 'mirth_update_global_scripts',
-        description: 'Update global scripts. Creates a backup first. Requires confirmation.',
+        name: 'mirth_list_ports_in_use',
+        description: 'List every listener port claimed by a channel source connector, with host, transport and channel, and report ports shared by more than one channel.',
         inputSchema: {
           type: 'object',
           properties: {
-            scriptsXml: {
-              type: 'string',
-              description: 'The global scripts XML',
-            },
-            confirmationToken: {
+            port: {
               type: 'string',
-              description: 'Confirmation token from a previous call',
+              description: 'Only show this port',
             },
           },
-          required: ['scriptsXml'],
         },
       },
+
+      // === Channel Group Tools ===
       {
-        name: 'mirth_get_configuration_map',
-        description: 'Get the server configuration map (key-value settings).',
+        name: 'mirth_list_channel_groups',
+        description: 'List channel groups with the names of their channels, plus channels in the Default Group.',
         inputSchema: {
           type: 'object',
           properties: {},
         },
       },
-
-      // === Backup & Recovery Tools ===
       {
-        name: 'mirth_backup_channel',
-        description: 'Manually create a backup of a channel.',
+        name: 'mirth_create_channel_group',
+        description: 'Create a channel group, optionally moving channels into it. Backs up the current groups first.',
         inputSchema: {
           type: 'object',
           properties: {
-            channelId: {
+            name: {
               type: 'string',
-              description: 'The channel ID to backup',
+              description: 'The group name',
             },
             description: {
               type: 'string',
-              description: 'Optional description for this backup',
+              description: 'Optional group description',
+            },
+            channelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Channels to move into the new group',
             },
           },
-          required: ['channelId'],
+          required: ['name'],
         },
       },
       {
-        name: 'mirth_backup_code_template',
-        description: 'Manually create a backup of a code template.',
+        name: 'mirth_rename_channel_group',
+        description: 'Rename a channel group and/or change its description. Backs up the current groups first.',
         inputSchema: {
           type: 'object',
           properties: {
-            templateId: {
+            groupId: {
               type: 'string',
-              description: 'The code template ID to backup',
+              description: 'The channel group ID',
+            },
+            name: {
+              type: 'string',
+              description: 'The new group name',
             },
             description: {
               type: 'string',
-              description: 'Optional description for this backup',
+              description: 'The new group description',
             },
           },
-          required: ['templateId'],
+          required: ['groupId'],
         },
       },
       {
-        name: 'mirth_list_backups',
-        description: 'List all stored backups with filtering options.',
+        name: 'mirth_move_channels_to_group',
+        description: 'Move channels into a channel group (removing them from their current group). Backs up the current groups first.',
         inputSchema: {
           type: 'object',
           properties: {
-            type: {
-              type: 'string',
-              enum: ['channel', 'codeTemplate', 'codeTemplateLibrary', 'globalScripts', 'full'],
-              description: 'Filter by backup type',
+            channelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'The channel IDs to move',
             },
-            resourceId: {
+            groupId: {
               type: 'string',
-              description: 'Filter by resource ID',
+              description: 'Target group ID, or "default" for the Default Group',
             },
           },
+          required: ['channelIds', 'groupId'],
         },
       },
+
+      // === Channel Dependency & Tag Tools ===
       {
-        name: 'mirth_get_backup',
-        description: 'Get the content of a specific backup.',
+        name: 'mirth_get_channel_dependencies',
+        description: 'List channel dependencies (which channels must be deployed before others).',
         inputSchema: {
           type: 'object',
-          properties: {
-            backupId: {
-              type: 'string',
-              description: 'The backup ID',
-            },
-          },
-          required: ['backupId'],
+          properties: {},
         },
       },
       {
-        name: 'mirth_restore_backup',
-        description: 'Restore a resource from a backup. Creates a backup of current state first. Requires confirmation.',
+        name: 'mirth_update_channel_dependencies',
+        description: 'Add or remove channel dependencies. Rejects changes that would create a cycle. Backs up the current dependencies first.',
         inputSchema: {
           type: 'object',
           properties: {
-            backupId: {
-              type: 'string',
-              description: 'The backup ID to restore',
+            add: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  dependentId: { type: 'string', description: 'Channel that depends on the other' },
+                  dependencyId: { type: 'string', description: 'Channel that must be deployed first' },
+                },
+                required: ['dependentId', 'dependencyId'],
+              },
+              description: 'Dependencies to add',
             },
-            confirmationToken: {
-              type: 'string',
-              description: 'Confirmation token from a previous call',
+            remove: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  dependentId: { type: 'string' },
+                  dependencyId: { type: 'string' },
+                },
+                required: ['dependentId', 'dependencyId'],
+              },
+              description: 'Dependencies to remove',
             },
           },
-          required: ['backupId'],
         },
       },
       {
-        name: 'mirth_compare_backups',
-        description: 'Compare two backups to see if they differ.',
+        name: 'mirth_get_channel_tags',
+        description: 'List channel tags with the names of their channels.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'mirth_update_channel_tag',
+        description: 'Create, modify or delete a channel tag. Backs up the current tags first.',
         inputSchema: {
           type: 'object',
           properties: {
-            backupId1: {
+            name: {
               type: 'string',
-              description: 'First backup ID',
+              description: 'The tag name (created if it does not exist)',
             },
-            backupId2: {
+            addChannelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Channels to tag',
+            },
+            removeChannelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Channels to untag',
+            },
+            color: {
               type: 'string',
-              description: 'Second backup ID',
+              description: 'Background color as hex, e.g. "#FF8800"',
+            },
+            delete: {
+              type: 'boolean',
+              description: 'Delete the tag',
             },
           },
-          required: ['backupId1', 'backupId2'],
-        },
-      },
-      {
-        name: 'mirth_backup_stats',
-        description: 'Get statistics about stored backups.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
+          required: ['name'],
         },
       },
-
-      // === Server Logs & Maps (Extension Services) ===
       {
-        name: 'mirth_get_server_logs',
-        description: 'Get server log entries for debugging. Supports pagination via lastLogId.',
+        name: 'mirth_deploy_channels',
+        description: 'Deploy several channels in dependency order (dependencies first). Stops if there is a dependency cycle or a dependency fails to start.',
         inputSchema: {
           type: 'object',
           properties: {
-            fetchSize: {
-              type: 'number',
-              description: 'Maximum number of log entries to return',
-              default: 50,
+            channelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'The channel IDs to deploy',
             },
-            lastLogId: {
+            includeDependencies: {
+              type: 'boolean',
+              description: 'Also deploy channels the given channels depend on (transitively)',
+              default: false,
+            },
+            startTimeoutSeconds: {
               type: 'number',
-              description: 'Last log ID retrieved. Only logs with greater ID will be returned (for pagination).',
+              description: 'How long to wait for each dependency to start (default: 60)',
+              default: 60,
             },
           },
+          required: ['channelIds'],
         },
       },
       {
-        name: 'mirth_get_connection_logs',
-        description: 'Get connection logs for all channels. Shows connector states and events.',
+        name: 'mirth_undeploy_channels',
+        description: 'Undeploy several channels in reverse dependency order (dependents first). Stops if there is a dependency cycle.',
         inputSchema: {
           type: 'object',
           properties: {
-            fetchSize: {
-              type: 'number',
-              description: 'Maximum number of log entries to return',
-              default: 50,
-            },
-            serverId: {
-              type: 'string',
-              description: 'Filter by server ID (optional)',
+            channelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'The channel IDs to undeploy',
             },
-            lastLogId: {
-              type: 'number',
-              description: 'Last log ID retrieved (for pagination)',
+            includeDependents: {
+              type: 'boolean',
+              description: 'Also undeploy channels that depend on the given channels (transitively)',
+              default: false,
             },
           },
+          required: ['channelIds'],
         },
       },
+
+      // === Alert Tools ===
       {
-        name: 'mirth_get_channel_connection_logs',
-        description: 'Get connection logs for a specific channel (source and destination connectors).',
+        name: 'mirth_list_alerts',
+        description: 'List alerts with their enabled state and how many times each has fired.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'mirth_get_alert',
+        description: 'Get the full configuration of an alert (trigger, channels, actions).',
         inputSchema: {
           type: 'object',
           properties: {
-            channelId: {
+            alertId: {
               type: 'string',
-              description: 'The channel ID',
-            },
-            fetchSize: {
-              type: 'number',
-              description: 'Maximum number of log entries to return',
-              default: 50,
+              description: 'The alert ID',
             },
-            serverId: {
+            format: {
               type: 'string',
-              description: 'Filter by server ID (optional)',
-            },
-            lastLogId: {
-              type: 'number',
-              description: 'Last log ID retrieved (for pagination)',
+              enum: ['json', 'xml'],
+              description: 'Output format (default: json)',
             },
           },
-          required: ['channelId'],
+          required: ['alertId'],
         },
       },
       {
-        name: 'mirth_get_global_map',
-        description: 'Get the global map (shared variables across all channels).',
+        name: 'mirth_get_alert_options',
+        description: 'Get the alert protocol options (available email/channel/user recipients for alert actions).',
         inputSchema: {
           type: 'object',
           properties: {},
         },
       },
       {
-        name: 'mirth_get_channel_map',
-        description: 'Get the global channel map for a specific channel.',
+        name: 'mirth_create_alert',
+        description: 'Create an error alert. Provide alertXml, or build one from channelIds, error types and email recipients.',
         inputSchema: {
           type: 'object',
           properties: {
-            channelId: {
+            alertXml: {
               type: 'string',
-              description: 'The channel ID',
+              description: 'Complete alertModel XML (other options are ignored when provided)',
+            },
+            name: {
+              type: 'string',
+              description: 'The alert name',
             },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'mirth_get_all_maps',
-        description: 'Get all global and channel maps.',
-        inputSchema: {
-          type: 'object',
-          properties: {
             channelIds: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Optional list of channel IDs to filter',
+              description: 'Channels the alert watches',
             },
-            includeGlobalMap: {
-              type: 'boolean',
-              description: 'Include the global map in response',
-              default: true,
+            errorTypes: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Error event types to alert on (default: ["ANY"]), e.g. SOURCE_CONNECTOR, DESTINATION_CONNECTOR, SOURCE_FILTER_TRANSFORMER',
             },
-          },
-        },
-      },
-
-      // === File Export/Import Tools ===
-      {
-        name: 'mirth_export_channel',
-        description: 'Export a channel XML to a local file. Use this to work with large channel configs without token issues.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
+            regex: {
               type: 'string',
-              description: 'The channel ID or name to export',
+              description: 'Only alert when the error matches this regular expression',
             },
-            filePath: {
+            emailRecipients: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Email addresses notified when the alert fires',
+            },
+            subject: {
               type: 'string',
-              description: 'Destination file path (e.g., ./channels/my-channel.xml)',
+              description: 'Notification subject (default: "Mirth Alert: ${alertName}")',
             },
-            includeMetadata: {
+            template: {
+              type: 'string',
+              description: 'Notification body template (default includes channel, connector and error)',
+            },
+            enabled: {
               type: 'boolean',
-              description: 'Include a .meta.json file with channel info',
-              default: true,
+              description: 'Create the alert enabled (default: true)',
             },
           },
-          required: ['channelId', 'filePath'],
         },
       },
       {
-        name: 'mirth_import_channel',
-        description: 'Import/update a channel from a local XML file. Creates backup before update.',
+        name: 'mirth_update_alert',
+        description: 'Replace an alert configuration with new XML. Requires confirmation and backs up the alert first.',
         inputSchema: {
           type: 'object',
           properties: {
-            filePath: {
+            alertId: {
               type: 'string',
-              description: 'Source XML file path',
+              description: 'The alert ID',
             },
-            deploy: {
-              type: 'boolean',
-              description: 'Deploy the channel after import',
-              default: false,
+            alertXml: {
+              type: 'string',
+              description: 'The complete alertModel XML',
             },
             confirmationToken: {
               type: 'string',
-              description: 'Confirmation token for safety',
+              description: 'Confirmation token (required if confirmation is enabled)',
             },
           },
-          required: ['filePath'],
+          required: ['alertId', 'alertXml'],
         },
       },
       {
-        name: 'mirth_export_code_template_library',
-        description: 'Export a code template library to a local file.',
+        name: 'mirth_delete_alert',
+        description: 'Delete an alert. Requires confirmation and backs up the alert first.',
         inputSchema: {
           type: 'object',
           properties: {
-            libraryId: {
+            alertId: {
               type: 'string',
-              description: 'The library ID to export',
+              description: 'The alert ID',
             },
-            filePath: {
+            confirmationToken: {
               type: 'string',
-              description: 'Destination file path',
+              description: 'Confirmation token (required if confirmation is enabled)',
             },
           },
-          required: ['libraryId', 'filePath'],
+          required: ['alertId'],
         },
       },
       {
-        name: 'mirth_list_exported_files',
-        description: 'List exported channel/template files in a directory.',
+        name: 'mirth_enable_alert',
+        description: 'Enable an alert.',
         inputSchema: {
           type: 'object',
           properties: {
-            directory: {
+            alertId: {
               type: 'string',
-              description: 'Directory to scan (default: ./exports)',
-              default: './exports',
+              description: 'The alert ID',
             },
           },
+          required: ['alertId'],
         },
       },
       {
-        name: 'mirth_export_code_template',
-        description: 'Export a single code template to a local XML file.',
+        name: 'mirth_disable_alert',
+        description: 'Disable an alert.',
         inputSchema: {
           type: 'object',
           properties: {
-            templateId: {
-              type: 'string',
-              description: 'The code template ID to export',
-            },
-            filePath: {
+            alertId: {
               type: 'string',
-              description: 'Destination file path (e.g., ./exports/templates/my-template.xml)',
+              description: 'The alert ID',
             },
           },
-          required: ['templateId', 'filePath'],
+          required: ['alertId'],
         },
       },
+
+      // === Code Template Tools ===
       {
-        name: 'mirth_import_code_template',
-        description: 'Import/update a single code template from a local XML file. Does NOT affect other templates.',
+        name: 'mirth_list_code_templates',
+        description: 'List all code template libraries and their templates.',
         inputSchema: {
           type: 'object',
-          properties: {
-            filePath: {
-              type: 'string',
-              description: 'Source XML file path',
-            },
-            confirmationToken: {
-              type: 'string',
-              description: 'Confirmation token for safety',
-            },
-          },
-          required: ['filePath'],
+          properties: {},
         },
       },
       {
-        name: 'mirth_import_code_template_library',
-        description: 'Import/update a code template library. WARNING: This replaces ALL libraries, so it merges the imported library with existing ones.',
+        name: 'mirth_get_code_template',
+        description: 'Get a specific code template with its code.',
         inputSchema: {
           type: 'object',
           properties: {
-            filePath: {
+            templateId: {
               type: 'string',
-              description: 'Source XML file path for the library',
+              description: 'The code template ID',
             },
-            confirmationToken: {
+            format: {
               type: 'string',
-              description: 'Confirmation token for safety',
+              enum: ['json', 'xml'],
+              description: 'Output format',
+              default: 'json',
             },
           },
-          required: ['filePath'],
+          required: ['templateId'],
         },
       },
-
-      // === Validation & Testing Tools ===
       {
-        name: 'mirth_validate_channel_xml',
-        description: 'Validate channel XML structure before deployment.',
+        name: 'mirth_get_code_template_library',
+        description: 'Get a code template library with all its templates.',
         inputSchema: {
           type: 'object',
           properties: {
-            channelXml: {
+            libraryId: {
               type: 'string',
-              description: 'The channel XML to validate',
+              description: 'The code template library ID',
             },
-          },
-          required: ['channelXml'],
-        },
-      },
-      {
-        name: 'mirth_analyze_channel',
-        description: 'Analyze a channel configuration for potential issues and best practices.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
+            format: {
               type: 'string',
-              description: 'The channel ID to analyze',
+              enum: ['json', 'xml'],
+              description: 'Output format',
+              default: 'json',
             },
           },
-          required: ['channelId'],
+          required: ['libraryId'],
         },
       },
 
-      // === Safety & Confirmation ===
+      // === Troubleshooting Tools ===
       {
-        name: 'mirth_confirm_action',
-        description: 'Confirm a pending destructive action using its token.',
+        name: 'mirth_get_events',
+        description: 'Get server events/logs for troubleshooting. Can filter by level, date range, and more.',
         inputSchema: {
           type: 'object',
           properties: {
-            confirmationToken: {
+            level: {
               type: 'string',
-              description: 'The confirmation token',
+              enum: ['INFORMATION', 'WARNING', 'ERROR'],
+              description: 'Filter by event level',
+            },
+            startDate: {
+              type: 'string',
+              description: 'Start date in ISO format (e.g., 2024-01-01T00:00:00)',
+            },
+            endDate: {
+              type: 'string',
+              description: 'End date in ISO format',
+            },
+            name: {
+              type: 'string',
+              description: 'Filter by event name',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of events to return',
+              default: 50,
             },
           },
-          required: ['confirmationToken'],
         },
       },
       {
-        name: 'mirth_cancel_action',
-        description: 'Cancel a pending destructive action.',
+        name: 'mirth_get_channel_messages',
+        description: 'Get messages for a channel to debug message processing issues.',
         inputSchema: {
           type: 'object',
           properties: {
-            confirmationToken: {
+            channelId: {
               type: 'string',
-              description: 'The confirmation token to cancel',
+              description: 'The channel ID',
+            },
+            status: {
+              type: 'string',
+              enum: ['RECEIVED', 'TRANSFORMED', 'FILTERED', 'QUEUED', 'SENT', 'ERROR'],
+              description: 'Filter by message status',
+            },
+            startDate: {
+              type: 'string',
+              description: 'Start date in ISO format',
+            },
+            endDate: {
+              type: 'string',
+              description: 'End date in ISO format',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of messages to return',
+              default: 20,
+            },
+            includeContent: {
+              type: 'boolean',
+              description: 'Include message content (raw, transformed, encoded)',
+              default: false,
             },
           },
-          required: ['confirmationToken'],
+          required: ['channelId'],
         },
       },
-
-      // === Dataset Query Tools ===
       {
-        name: 'dataset_query',
-        description: 'Query a stored dataset with filters, pagination, and search. Use this after receiving a datasetId from tools like mirth_get_channel_messages or mirth_get_server_logs.',
+        name: 'mirth_search_messages',
+        description: 'Search channel messages server-side with the full MessageFilter (content, metadata columns, connectors, errors, ID ranges, attachments). Returns a datasetId and the total match count.',
         inputSchema: {
           type: 'object',
           properties: {
-            datasetId: {
+            channelId: {
               type: 'string',
-              description: 'The dataset ID returned by a previous data fetch',
+              description: 'The channel ID',
             },
-            page: {
+            ...MESSAGE_FILTER_PROPERTIES,
+            limit: {
               type: 'number',
-              description: 'Page number (1-based). Default: 1',
-              default: 1,
+              description: 'Maximum number of messages to fetch into the dataset',
+              default: 100,
             },
-            pageSize: {
+            offset: {
               type: 'number',
-              description: 'Items per page (max 50). Default: 50',
-              default: 50,
+              description: 'Offset into the server-side result set (for fetching past limit)',
+              default: 0,
             },
-            sortBy: {
+          },
+          required: ['channelId'],
+        },
+      },
+      {
+        name: 'mirth_list_message_attachments',
+        description: 'List the attachments of a message with their IDs, MIME types and sizes.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
               type: 'string',
-              description: 'Field name to sort by (e.g., "id", "receivedDate", "status")',
+              description: 'The channel ID',
             },
-            sortOrder: {
+            messageId: {
+              type: 'number',
+              description: 'The message ID',
+            },
+          },
+          required: ['channelId', 'messageId'],
+        },
+      },
+      {
+        name: 'mirth_get_message_attachment',
+        description: 'Save a message attachment to a local file (decoded). Returns the file path instead of the base64 content.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
               type: 'string',
-              enum: ['asc', 'desc'],
-              description: 'Sort order. Default: desc (newest first)',
-              default: 'desc',
+              description: 'The channel ID',
             },
-            filters: {
-              type: 'object',
-              description: 'Field filters as key-value pairs (e.g., {"status": "ERROR", "level": "ERROR"})',
+            messageId: {
+              type: 'number',
+              description: 'The message ID',
             },
-            search: {
+            attachmentId: {
               type: 'string',
-              description: 'Text search across all fields',
+              description: 'The attachment ID',
             },
-            ids: {
+            filePath: {
+              type: 'string',
+              description: 'Destination file path (default: ./exports/attachments/<messageId>_<attachmentId>.<ext>)',
+            },
+          },
+          required: ['channelId', 'messageId', 'attachmentId'],
+        },
+      },
+      {
+        name: 'mirth_get_message_content',
+        description: 'Get detailed content of a specific message including raw, transformed, and encoded data.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+            messageId: {
+              type: 'number',
+              description: 'The message ID',
+            },
+            metaDataId: {
+              type: 'number',
+              description: 'The connector metadata ID (0 for source, 1+ for destinations)',
+              default: 0,
+            },
+          },
+          required: ['channelId', 'messageId'],
+        },
+      },
+      {
+        name: 'mirth_get_channel_statistics',
+        description: 'Get message statistics for channels (received, sent, error, filtered, queued counts).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'Optional channel ID. If not provided, returns stats for all channels.',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_reset_statistics',
+        description: 'Reset message statistics for channels selected by name pattern, tag, group and/or IDs (or all channels). The current counters are saved to the local statistics history before clearing. Supports clearing only some connectors and some counters. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...CHANNEL_SELECTOR_PROPERTIES,
+            all: {
+              type: 'boolean',
+              description: 'Clear every counter of every channel, including lifetime statistics (ignores the selector, connectors and counters)',
+            },
+            metaDataIds: {
               type: 'array',
               items: { type: 'number' },
-              description: 'Get specific items by their IDs',
+              description: 'Only clear these connectors (0 = source). Default: the whole channel',
+            },
+            counters: {
+              type: 'array',
+              items: { type: 'string', enum: STATISTICS_COUNTERS },
+              description: 'Counters to clear (default: all of received, filtered, sent, error)',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
             },
           },
-          required: ['datasetId'],
         },
       },
       {
-        name: 'dataset_get_item',
-        description: 'Get a single item by ID from a stored dataset. Use this to get full details of a specific message, log entry, or event.',
+        name: 'mirth_get_statistics_history',
+        description: 'Read the statistics snapshots saved before each reset (newest first).',
         inputSchema: {
           type: 'object',
           properties: {
-            datasetId: {
+            channelId: {
               type: 'string',
-              description: 'The dataset ID',
+              description: 'Only snapshots containing this channel',
             },
-            itemId: {
+            limit: {
               type: 'number',
-              description: 'The item ID (messageId, log id, event id, etc.)',
+              description: 'Maximum snapshots to return (default: 20)',
             },
           },
-          required: ['datasetId', 'itemId'],
         },
       },
       {
-        name: 'dataset_list',
-        description: 'List all active datasets with their metadata. Useful to see what data is available for querying.',
+        name: 'mirth_reprocess_message',
+        description: 'Reprocess a message that failed or needs to be sent again.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+            messageId: {
+              type: 'number',
+              description: 'The message ID to reprocess',
+            },
+            replace: {
+              type: 'boolean',
+              description: 'Replace the existing message instead of creating a new one',
+              default: false,
+            },
+          },
+          required: ['channelId', 'messageId'],
         },
       },
       {
-        name: 'dataset_info',
-        description: 'Get detailed information about a specific dataset including summary statistics.',
+        name: 'mirth_reprocess_messages',
+        description: 'Bulk reprocess all messages matching a filter. First call returns a dry-run count and a confirmation token.',
         inputSchema: {
           type: 'object',
           properties: {
-            datasetId: {
+            channelId: {
               type: 'string',
-              description: 'The dataset ID',
+              description: 'The channel ID',
+            },
+            ...MESSAGE_FILTER_PROPERTIES,
+            destinationMetaDataIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Only re-send to these destinations (default: all destinations)',
+            },
+            replace: {
+              type: 'boolean',
+              description: 'Overwrite the original messages instead of creating new ones',
+              default: false,
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Only report how many messages match, do not reprocess',
+              default: false,
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from the dry-run call',
             },
           },
-          required: ['datasetId'],
+          required: ['channelId'],
         },
       },
-    ];
-  }
-
-  private async ensureConnected(): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error('Not connected to Mirth Connect. Please call mirth_connect first.');
-    }
-  }
-
-  private generateConfirmationToken(): string {
-    return `confirm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  private requireConfirmation(action: string, params: Record<string, unknown>): TextContent[] {
-    if (!this.config.requireConfirmation) {
-      return [];
-    }
-
-    const token = this.generateConfirmationToken();
-    pendingConfirmations.set(token, {
-      action,
-      params,
-      expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
-    });
-
-    return [{
-      type: 'text',
-      text: JSON.stringify({
-        status: 'confirmation_required',
-        message: `This action requires confirmation. Action: ${action}`,
-        confirmationToken: token,
-        expiresIn: '5 minutes',
-        instructions: 'Call the same tool again with the confirmationToken parameter to proceed, or call mirth_cancel_action to cancel.',
-      }, null, 2),
-    }];
-  }
-
-  private async handleToolCall(name: string, args: Record<string, unknown>): Promise<{ content: TextContent[] }> {
-    try {
-      const result = await this.executeToolCall(name, args);
-      return {
-        content: [{
-          type: 'text',
-          text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-        }],
-      };
-    } catch (error) {
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            error: true,
-            message: error instanceof Error ? error.message : String(error),
-          }, null, 2),
-        }],
-      };
-    }
-  }
-
-  private async executeToolCall(name: string, args: Record<string, unknown>): Promise<unknown> {
-    switch (name) {
-      // === Connection ===
-      case 'mirth_connect': {
-        await this.mirthClient.login();
-        this.isConnected = true;
+      {
+        name: 'mirth_remove_messages',
+        description: 'Remove messages matching a filter. Backs up the matched messages first (default). Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+            ...MESSAGE_FILTER_PROPERTIES,
+            backupBeforeRemove: {
+              type: 'boolean',
+              description: 'Export the matched messages to the backup directory before removing them',
+              default: true,
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['channelId'],
+        },
+      },
+      {
+        name: 'mirth_purge_channel_messages',
+        description: 'Remove ALL messages from one or more channels. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'The channel IDs to purge',
+            },
+            clearStatistics: {
+              type: 'boolean',
+              description: 'Also clear message statistics',
+              default: true,
+            },
+            restartRunningChannels: {
+              type: 'boolean',
+              description: 'Stop and restart running channels so they are included in the purge',
+              default: false,
+            },
+            backupBeforeRemove: {
+              type: 'boolean',
+              description: 'Export all messages to the backup directory before purging',
+              default: false,
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['channelIds'],
+        },
+      },
+      {
+        name: 'mirth_send_message',
+        description: 'Send a test message into a channel and wait for processing to complete. Returns the new messageId and per-connector statuses.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+            content: {
+              type: 'string',
+              description: 'Raw message content (HL7, JSON, XML, ...). Either content or filePath is required.',
+            },
+            filePath: {
+              type: 'string',
+              description: 'Local file containing the raw message content',
+            },
+            sourceMap: {
+              type: 'object',
+              description: 'Entries injected into the source map as key-value pairs',
+            },
+            destinationMetaDataIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Destination metadata IDs to send to (default: all destinations)',
+            },
+            waitForCompletion: {
+              type: 'boolean',
+              description: 'Poll the message until processing completes',
+              default: true,
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'Maximum time to wait for processing to complete',
+              default: 30,
+            },
+          },
+          required: ['channelId'],
+        },
+      },
+
+      // === Global Scripts & Configuration ===
+      {
+        name: 'mirth_get_global_scripts',
+        description: 'Get global deploy/undeploy/preprocessor/postprocessor scripts.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: {
+              type: 'string',
+              enum: ['json', 'xml'],
+              description: 'Output format',
+              default: 'json',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_update_global_scripts',
+        description: 'Update global scripts. Creates a backup first. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scriptsXml: {
+              type: 'string',
+              description: 'The global scripts XML',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['scriptsXml'],
+        },
+      },
+      {
+        name: 'mirth_get_configuration_map',
+        description: 'Get the server configuration map (key-value settings). Values of secret-looking keys (password, token, secret, API key...) are masked.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            revealSecrets: {
+              type: 'boolean',
+              description: 'Show secret-looking values unmasked',
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_set_configuration_value',
+        description: 'Create or update a single configuration map key, leaving the other keys untouched. Backs up the configuration map first. Values of secret-looking keys are masked in the response.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            key: {
+              type: 'string',
+              description: 'The configuration map key',
+            },
+            value: {
+              type: 'string',
+              description: 'The new value',
+            },
+            comment: {
+              type: 'string',
+              description: 'Optional comment (kept unchanged when omitted)',
+            },
+          },
+          required: ['key', 'value'],
+        },
+      },
+      {
+        name: 'mirth_delete_configuration_value',
+        description: 'Delete a single configuration map key. Backs up the configuration map first. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            key: {
+              type: 'string',
+              description: 'The configuration map key',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token (required if confirmation is enabled)',
+            },
+          },
+          required: ['key'],
+        },
+      },
+
+      // === Backup & Recovery Tools ===
+      {
+        name: 'mirth_backup_channel',
+        description: 'Manually create a backup of a channel.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID to backup',
+            },
+            description: {
+              type: 'string',
+              description: 'Optional description for this backup',
+            },
+          },
+          required: ['channelId'],
+        },
+      },
+      {
+        name: 'mirth_backup_code_template',
+        description: 'Manually create a backup of a code template.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            templateId: {
+              type: 'string',
+              description: 'The code template ID to backup',
+            },
+            description: {
+              type: 'string',
+              description: 'Optional description for this backup',
+            },
+          },
+          required: ['templateId'],
+        },
+      },
+      {
+        name: 'mirth_backup_server',
+        description: 'Snapshot the full server configuration (channels, groups, tags, code templates, alerts, global scripts, configuration map, dependencies, resources and settings) as a single "full" backup. Use before upgrades.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            description: {
+              type: 'string',
+              description: 'Optional description for this backup',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_list_backups',
+        description: 'List all stored backups with filtering options.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['channel', 'codeTemplate', 'codeTemplateLibrary', 'globalScripts', 'full', 'messages', 'channelGroups', 'alert', 'channelDependencies', 'channelTags', 'resources', 'configurationMap'],
+              description: 'Filter by backup type',
+            },
+            resourceId: {
+              type: 'string',
+              description: 'Filter by resource ID',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_get_backup',
+        description: 'Get the content of a specific backup. Secret-looking configuration map values are masked unless revealSecrets is set.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            backupId: {
+              type: 'string',
+              description: 'The backup ID',
+            },
+            revealSecrets: {
+              type: 'boolean',
+              description: 'Show configuration map secrets in clear text (default: false)',
+            },
+          },
+          required: ['backupId'],
+        },
+      },
+      {
+        name: 'mirth_restore_backup',
+        description: 'Restore a resource from a backup. Creates a backup of current state first. Requires confirmation; for full server backups the confirmation lists what will be added, removed and modified.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            backupId: {
+              type: 'string',
+              description: 'The backup ID to restore',
+            },
+            deployChannels: {
+              type: 'boolean',
+              description: 'Full backups only: deploy all enabled channels after restoring',
+              default: false,
+            },
+            overwriteConfigMap: {
+              type: 'boolean',
+              description: 'Full backups only: also replace the configuration map',
+              default: false,
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['backupId'],
+        },
+      },
+      {
+        name: 'mirth_compare_backups',
+        description: 'Compare two backups to see if they differ.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            backupId1: {
+              type: 'string',
+              description: 'First backup ID',
+            },
+            backupId2: {
+              type: 'string',
+              description: 'Second backup ID',
+            },
+          },
+          required: ['backupId1', 'backupId2'],
+        },
+      },
+      {
+        name: 'mirth_backup_stats',
+        description: 'Get statistics about stored backups.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+
+      // === Server Logs & Maps (Extension Services) ===
+      {
+        name: 'mirth_get_server_logs',
+        description: 'Get server log entries for debugging. Supports pagination via lastLogId.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fetchSize: {
+              type: 'number',
+              description: 'Maximum number of log entries to return',
+              default: 50,
+            },
+            lastLogId: {
+              type: 'number',
+              description: 'Last log ID retrieved. Only logs with greater ID will be returned (for pagination).',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_get_connection_logs',
+        description: 'Get connection logs for all channels. Shows connector states and events.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fetchSize: {
+              type: 'number',
+              description: 'Maximum number of log entries to return',
+              default: 50,
+            },
+            serverId: {
+              type: 'string',
+              description: 'Filter by server ID (optional)',
+            },
+            lastLogId: {
+              type: 'number',
+              description: 'Last log ID retrieved (for pagination)',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_get_channel_connection_logs',
+        description: 'Get connection logs for a specific channel (source and destination connectors).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+            fetchSize: {
+              type: 'number',
+              description: 'Maximum number of log entries to return',
+              default: 50,
+            },
+            serverId: {
+              type: 'string',
+              description: 'Filter by server ID (optional)',
+            },
+            lastLogId: {
+              type: 'number',
+              description: 'Last log ID retrieved (for pagination)',
+            },
+          },
+          required: ['channelId'],
+        },
+      },
+      {
+        name: 'mirth_get_global_map',
+        description: 'Get the global map (shared variables across all channels).',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'mirth_get_channel_map',
+        description: 'Get the global channel map for a specific channel.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+          },
+          required: ['channelId'],
+        },
+      },
+      {
+        name: 'mirth_get_all_maps',
+        description: 'Get all global and channel maps.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional list of channel IDs to filter',
+            },
+            includeGlobalMap: {
+              type: 'boolean',
+              description: 'Include the global map in response',
+              default: true,
+            },
+          },
+        },
+      },
+
+      // === Resource Tools ===
+      {
+        name: 'mirth_list_resources',
+        description: 'List server resources (custom library directories) with their settings and the channels that use them.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            includeLibraries: {
+              type: 'boolean',
+              description: 'Also list the library files each Directory Resource loads',
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_get_resource_libraries',
+        description: 'List the library files (JARs) a Directory Resource currently loads, and the channels and connectors using it.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            resourceId: {
+              type: 'string',
+              description: 'The resource ID (e.g. "Default Resource")',
+            },
+          },
+          required: ['resourceId'],
+        },
+      },
+      {
+        name: 'mirth_update_resource',
+        description: 'Update a resource\'s settings. Backs up the resource list first. Reload the resource afterwards to pick up changes.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            resourceId: {
+              type: 'string',
+              description: 'The resource ID',
+            },
+            name: {
+              type: 'string',
+              description: 'New resource name',
+            },
+            description: {
+              type: 'string',
+              description: 'New description',
+            },
+            directory: {
+              type: 'string',
+              description: 'Directory Resource only: library directory on the Mirth server',
+            },
+            directoryRecursion: {
+              type: 'boolean',
+              description: 'Directory Resource only: include subdirectories',
+            },
+            includeWithGlobalScripts: {
+              type: 'boolean',
+              description: 'Make the libraries available to global scripts',
+            },
+            loadParentFirst: {
+              type: 'boolean',
+              description: 'Load classes from the parent class loader first',
+            },
+          },
+          required: ['resourceId'],
+        },
+      },
+      {
+        name: 'mirth_reload_resource',
+        description: 'Reload a resource so newly added or replaced library files are picked up. Redeploy channels using it afterwards.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            resourceId: {
+              type: 'string',
+              description: 'The resource ID',
+            },
+          },
+          required: ['resourceId'],
+        },
+      },
+
+      // === Extension Tools ===
+      {
+        name: 'mirth_list_extensions',
+        description: 'List installed connectors and plugins with version, connector type (source/destination) and whether each extension is enabled.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            kind: {
+              type: 'string',
+              enum: ['connector', 'plugin', 'all'],
+              description: 'Which extensions to list (default: all)',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_set_extension_enabled',
+        description: 'Enable or disable an installed extension. Takes effect after the Mirth server is restarted.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Extension name as shown by mirth_list_extensions',
+            },
+            enabled: {
+              type: 'boolean',
+              description: 'true to enable, false to disable',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['name', 'enabled'],
+        },
+      },
+      {
+        name: 'mirth_get_extension_properties',
+        description: 'Get the properties of an extension. Values of secret-looking keys are masked unless revealSecrets is set.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Extension name',
+            },
+            propertyKeys: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only return these keys (default: all)',
+            },
+            revealSecrets: {
+              type: 'boolean',
+              description: 'Show secret values in clear text (default: false)',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'mirth_update_extension_properties',
+        description: 'Update the properties of an extension. By default the given keys are merged into the existing properties.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Extension name',
+            },
+            properties: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Property key/value pairs to set',
+            },
+            merge: {
+              type: 'boolean',
+              description: 'Merge with existing properties instead of replacing them all (default: true)',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['name', 'properties'],
+        },
+      },
+
+      // === User Tools ===
+      {
+        name: 'mirth_list_users',
+        description: 'List Mirth user accounts with last login, failed login strikes and whether each user is currently logged in.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            includeLoggedIn: {
+              type: 'boolean',
+              description: 'Check whether each user is currently logged in (default: true)',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_get_user',
+        description: 'Get a user account by ID or username.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            userIdOrName: {
+              type: 'string',
+              description: 'The user ID or username',
+            },
+          },
+          required: ['userIdOrName'],
+        },
+      },
+      {
+        name: 'mirth_create_user',
+        description: 'Create a user account. The password, if given, is checked against the server password requirements before the user is created.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...USER_PROPERTIES,
+            password: {
+              type: 'string',
+              description: 'Initial password',
+            },
+          },
+          required: ['username'],
+        },
+      },
+      {
+        name: 'mirth_update_user',
+        description: 'Update a user\'s profile fields. Only the given fields are changed.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            userId: {
+              type: 'number',
+              description: 'The user ID',
+            },
+            ...USER_PROPERTIES,
+          },
+          required: ['userId'],
+        },
+      },
+      {
+        name: 'mirth_delete_user',
+        description: 'Delete a user account. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            userId: {
+              type: 'number',
+              description: 'The user ID',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['userId'],
+        },
+      },
+      {
+        name: 'mirth_change_user_password',
+        description: 'Change a user\'s password. The password is checked against the server password requirements first. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            userId: {
+              type: 'number',
+              description: 'The user ID',
+            },
+            password: {
+              type: 'string',
+              description: 'The new password',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token from a previous call',
+            },
+          },
+          required: ['userId', 'password'],
+        },
+      },
+      {
+        name: 'mirth_check_password',
+        description: 'Check a candidate password against the server password requirements without changing anything.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            password: {
+              type: 'string',
+              description: 'The password to check',
+            },
+          },
+          required: ['password'],
+        },
+      },
+      {
+        name: 'mirth_get_user_activity',
+        description: 'Access review: join user accounts with their server events (logins, changes, failures). For one user returns recent events; without a user returns a per-user summary and flags inactive or locked-out accounts.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            userIdOrName: {
+              type: 'string',
+              description: 'Only this user (default: all users)',
+            },
+            startDate: {
+              type: 'string',
+              description: 'Earliest event date (ISO format)',
+            },
+            endDate: {
+              type: 'string',
+              description: 'Latest event date (ISO format)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum events to read per user (default: 500)',
+            },
+          },
+        },
+      },
+
+      // === Data Pruner Tools ===
+      {
+        name: 'mirth_get_data_pruner_status',
+        description: 'Show the data pruner state (last/next run, running or idle), recent pruner events, and each channel\'s retention settings - flagging channels with no pruning policy.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            includeChannelSettings: {
+              type: 'boolean',
+              description: 'Include per-channel pruning and storage settings',
+              default: true,
+            },
+            onlyWithoutRetention: {
+              type: 'boolean',
+              description: 'Only list channels that never prune their messages',
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_start_data_pruner',
+        description: 'Start a data pruner run now. Pruning permanently deletes old messages according to each channel\'s settings. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token (required if confirmation is enabled)',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_stop_data_pruner',
+        description: 'Stop a running data pruner.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+
+      // === Database Task Tools ===
+      {
+        name: 'mirth_list_database_tasks',
+        description: 'List pending database maintenance tasks (e.g. index creation after an upgrade) with their descriptions and affected channels.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'mirth_get_database_task',
+        description: 'Get the status of a database task, including the result of a run started from this session.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            taskId: {
+              type: 'string',
+              description: 'The database task ID',
+            },
+          },
+          required: ['taskId'],
+        },
+      },
+      {
+        name: 'mirth_run_database_task',
+        description: 'Run a database task. Waits up to waitSeconds, then keeps running in the background - poll with mirth_get_database_task. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            taskId: {
+              type: 'string',
+              description: 'The database task ID',
+            },
+            waitSeconds: {
+              type: 'number',
+              description: 'How long to wait for completion before returning (default: 30)',
+              default: 30,
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token (required if confirmation is enabled)',
+            },
+          },
+          required: ['taskId'],
+        },
+      },
+      {
+        name: 'mirth_cancel_database_task',
+        description: 'Cancel a running database task.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            taskId: {
+              type: 'string',
+              description: 'The database task ID',
+            },
+          },
+          required: ['taskId'],
+        },
+      },
+
+      // === File Export/Import Tools ===
+      {
+        name: 'mirth_export_channel',
+        description: 'Export a channel XML to a local file. Use this to work with large channel configs without token issues.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID or name to export',
+            },
+            filePath: {
+              type: 'string',
+              description: 'Destination file path (e.g., ./channels/my-channel.xml)',
+            },
+            includeMetadata: {
+              type: 'boolean',
+              description: 'Include a .meta.json file with channel info',
+              default: true,
+            },
+          },
+          required: ['channelId', 'filePath'],
+        },
+      },
+      {
+        name: 'mirth_import_channel',
+        description: 'Import/update a channel from a local XML file. Creates backup before update and warns when a connector transport is not installed on the server or the source listener port is already used by another channel.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            filePath: {
+              type: 'string',
+              description: 'Source XML file path',
+            },
+            deploy: {
+              type: 'boolean',
+              description: 'Deploy the channel after import',
+              default: false,
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token for safety',
+            },
+          },
+          required: ['filePath'],
+        },
+      },
+      {
+        name: 'mirth_export_code_template_library',
+        description: 'Export a code template library to a local file.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            libraryId: {
+              type: 'string',
+              description: 'The library ID to export',
+            },
+            filePath: {
+              type: 'string',
+              description: 'Destination file path',
+            },
+          },
+          required: ['libraryId', 'filePath'],
+        },
+      },
+      {
+        name: 'mirth_list_exported_files',
+        description: 'List exported channel/template files in a directory.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            directory: {
+              type: 'string',
+              description: 'Directory to scan (default: ./exports)',
+              default: './exports',
+            },
+          },
+        },
+      },
+      {
+        name: 'mirth_export_code_template',
+        description: 'Export a single code template to a local XML file.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            templateId: {
+              type: 'string',
+              description: 'The code template ID to export',
+            },
+            filePath: {
+              type: 'string',
+              description: 'Destination file path (e.g., ./exports/templates/my-template.xml)',
+            },
+          },
+          required: ['templateId', 'filePath'],
+        },
+      },
+      {
+        name: 'mirth_import_code_template',
+        description: 'Import/update a single code template from a local XML file. Does NOT affect other templates.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            filePath: {
+              type: 'string',
+              description: 'Source XML file path',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token for safety',
+            },
+          },
+          required: ['filePath'],
+        },
+      },
+      {
+        name: 'mirth_import_code_template_library',
+        description: 'Import/update a code template library. WARNING: This replaces ALL libraries, so it merges the imported library with existing ones.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            filePath: {
+              type: 'string',
+              description: 'Source XML file path for the library',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token for safety',
+            },
+          },
+          required: ['filePath'],
+        },
+      },
+      {
+        name: 'mirth_export_messages',
+        description: 'Export channel messages matching a filter to files. Local target writes one XML per message (or a single archive file) that mirth_import_messages can re-import. Server target uses the Mirth message writer on the server host.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+            ...MESSAGE_FILTER_PROPERTIES,
+            directory: {
+              type: 'string',
+              description: 'Destination directory (local path, or a path on the Mirth server for target=server)',
+            },
+            target: {
+              type: 'string',
+              enum: ['local', 'server'],
+              description: 'Where to write the files',
+              default: 'local',
+            },
+            queryParameterExport: {
+              type: 'boolean',
+              description: 'For target=server: send the filter as query parameters (/_export) instead of a multipart upload (/_exportUsingFilter), for servers or proxies that reject multipart requests',
+            },
+            format: {
+              type: 'string',
+              enum: ['xml', 'archive'],
+              description: 'xml = one file per message, archive = a single file (zip on the server)',
+              default: 'xml',
+            },
+            contentType: {
+              type: 'string',
+              enum: ['RAW', 'PROCESSED_RAW', 'TRANSFORMED', 'ENCODED', 'SENT', 'RESPONSE'],
+              description: 'Only write this content instead of the full serialized message (cannot be re-imported, but can be replayed with mirth_send_message)',
+            },
+            destinationContent: {
+              type: 'boolean',
+              description: 'Take contentType from destination connectors instead of the source',
+              default: false,
+            },
+            includeAttachments: {
+              type: 'boolean',
+              description: 'Include attachments (server target only)',
+              default: false,
+            },
+            maxMessages: {
+              type: 'number',
+              description: 'Maximum number of messages to export (local target)',
+              default: 1000,
+            },
+          },
+          required: ['channelId', 'directory'],
+        },
+      },
+      {
+        name: 'mirth_import_messages',
+        description: 'Import previously exported messages into a channel. Messages are stored, not processed. Requires confirmation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The target channel ID',
+            },
+            path: {
+              type: 'string',
+              description: 'XML file or directory (local path, or a path on the Mirth server for source=server)',
+            },
+            source: {
+              type: 'string',
+              enum: ['local', 'server'],
+              description: 'Where the files are located',
+              default: 'local',
+            },
+            includeSubfolders: {
+              type: 'boolean',
+              description: 'Scan sub-folders recursively',
+              default: false,
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Confirmation token for safety',
+            },
+          },
+          required: ['channelId', 'path'],
+        },
+      },
+
+      // === Validation & Testing Tools ===
+      {
+        name: 'mirth_validate_channel_xml',
+        description: 'Validate channel XML structure before deployment. When connected, also warns if the source listener port is already used by another channel.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelXml: {
+              type: 'string',
+              description: 'The channel XML to validate',
+            },
+          },
+          required: ['channelXml'],
+        },
+      },
+      {
+        name: 'mirth_analyze_channel',
+        description: 'Analyze a channel configuration for potential issues and best practices, including deployed channels that are disabled or start STOPPED.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID to analyze',
+            },
+          },
+          required: ['channelId'],
+        },
+      },
+      {
+        name: 'mirth_test_connector',
+        description: 'Test whether a connector can reach its endpoint from the Mirth host, using the connector properties from the channel. Supports TCP, HTTP, File (read/write), SMTP (sends a real test email; requires confirmation), Web Service and Database (lists tables) connectors.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'The channel ID',
+            },
+            metaDataId: {
+              type: 'number',
+              description: 'Connector metaDataId (0 = source)',
+            },
+            connectorName: {
+              type: 'string',
+              description: 'Connector name (alternative to metaDataId)',
+            },
+            testEmailTo: {
+              type: 'string',
+              description: 'SMTP only: send the test email to this address instead of the configured recipients',
+            },
+            tableNamePattern: {
+              type: 'string',
+              description: 'Database only: filter tables by name (wildcards * or % allowed)',
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'SMTP only: confirmation token from a previous call (the test sends a real email)',
+            },
+          },
+          required: ['channelId'],
+        },
+      },
+
+      // === Web Service (WSDL) Tools ===
+      {
+        name: 'mirth_get_wsdl_definition',
+        description: 'Fetch a WSDL through the Mirth server and return its services, ports and operations (with SOAP actions and endpoint URLs). The WSDL is cached on the server for envelope generation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'Channel the SOAP destination belongs to (used for variable replacement and the WSDL cache)',
+            },
+            wsdlUrl: {
+              type: 'string',
+              description: 'The full WSDL URL',
+            },
+            username: {
+              type: 'string',
+              description: 'Username if the WSDL requires authentication',
+            },
+            password: {
+              type: 'string',
+              description: 'Password if the WSDL requires authentication',
+            },
+            refreshCache: {
+              type: 'boolean',
+              description: 'Download the WSDL again even if it is already cached',
+              default: false,
+            },
+          },
+          required: ['channelId', 'wsdlUrl'],
+        },
+      },
+      {
+        name: 'mirth_generate_soap_envelope',
+        description: 'Generate a SOAP envelope template for a WSDL operation, together with the SOAP action and endpoint, ready for a Web Service Sender connector.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            channelId: {
+              type: 'string',
+              description: 'Channel the SOAP destination belongs to (used for variable replacement and the WSDL cache)',
+            },
+            wsdlUrl: {
+              type: 'string',
+              description: 'The full WSDL URL',
+            },
+            username: {
+              type: 'string',
+              description: 'Username if the WSDL requires authentication',
+            },
+            password: {
+              type: 'string',
+              description: 'Password if the WSDL requires authentication',
+            },
+            operation: {
+              type: 'string',
+              description: 'The operation name',
+            },
+            service: {
+              type: 'string',
+              description: 'The service name (default: the first service offering the operation)',
+            },
+            port: {
+              type: 'string',
+              description: 'The port name (default: the first port offering the operation)',
+            },
+            buildOptional: {
+              type: 'boolean',
+              description: 'Include optional elements in the envelope',
+              default: false,
+            },
+          },
+          required: ['channelId', 'wsdlUrl', 'operation'],
+        },
+      },
+
+      // === Safety & Confirmation ===
+      {
+        name: 'mirth_confirm_action',
+        description: 'Confirm a pending destructive action using its token.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            confirmationToken: {
+              type: 'string',
+              description: 'The confirmation token',
+            },
+          },
+          required: ['confirmationToken'],
+        },
+      },
+      {
+        name: 'mirth_cancel_action',
+        description: 'Cancel a pending destructive action.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            confirmationToken: {
+              type: 'string',
+              description: 'The confirmation token to cancel',
+            },
+          },
+          required: ['confirmationToken'],
+        },
+      },
+
+      // === Dataset Query Tools ===
+      {
+        name: 'dataset_query',
+        description: 'Query a stored dataset with filters, pagination, and search. Use this after receiving a datasetId from tools like mirth_get_channel_messages or mirth_get_server_logs.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            datasetId: {
+              type: 'string',
+              description: 'The dataset ID returned by a previous data fetch',
+            },
+            page: {
+              type: 'number',
+              description: 'Page number (1-based). Default: 1',
+              default: 1,
+            },
+            pageSize: {
+              type: 'number',
+              description: 'Items per page (max 50). Default: 50',
+              default: 50,
+            },
+            sortBy: {
+              type: 'string',
+              description: 'Field name to sort by (e.g., "id", "receivedDate", "status")',
+            },
+            sortOrder: {
+              type: 'string',
+              enum: ['asc', 'desc'],
+              description: 'Sort order. Default: desc (newest first)',
+              default: 'desc',
+            },
+            filters: {
+              type: 'object',
+              description: 'Field filters as key-value pairs (e.g., {"status": "ERROR", "level": "ERROR"})',
+            },
+            search: {
+              type: 'string',
+              description: 'Text search across all fields',
+            },
+            ids: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Get specific items by their IDs',
+            },
+          },
+          required: ['datasetId'],
+        },
+      },
+      {
+        name: 'dataset_get_item',
+        description: 'Get a single item by ID from a stored dataset. Use this to get full details of a specific message, log entry, or event.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            datasetId: {
+              type: 'string',
+              description: 'The dataset ID',
+            },
+            itemId: {
+              type: 'number',
+              description: 'The item ID (messageId, log id, event id, etc.)',
+            },
+          },
+          required: ['datasetId', 'itemId'],
+        },
+      },
+      {
+        name: 'dataset_list',
+        description: 'List all active datasets with their metadata. Useful to see what data is available for querying.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'dataset_info',
+        description: 'Get detailed information about a specific dataset including summary statistics.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            datasetId: {
+              type: 'string',
+              description: 'The dataset ID',
+            },
+          },
+          required: ['datasetId'],
+        },
+      },
+    ];
+  }
+
+  private async ensureConnected(): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Not connected to Mirth Connect. Please call mirth_connect first.');
+    }
+  }
+
+  // Connector messages come back as an array or as a serialized map ({ entry: [{ int, connectorMessage }] })
+  private extractConnectorMessages(message: Record<string, unknown>): ConnectorMessage[] {
+    const connectors = message.connectorMessages as unknown;
+    if (!connectors) return [];
+    if (Array.isArray(connectors)) return connectors as ConnectorMessage[];
+
+    const entry = (connectors as Record<string, unknown>).entry;
+    const entries = Array.isArray(entry) ? entry : entry ? [entry] : [];
+    return entries
+      .map(e => ((e as Record<string, unknown>).connectorMessage || e) as ConnectorMessage)
+      .sort((a, b) => a.metaDataId - b.metaDataId);
+  }
+
+  // Map tool arguments (see MESSAGE_FILTER_PROPERTIES) to a MessageFilter
+  private buildMessageFilter(args: Record<string, unknown>): MessageFilter {
+    const contentSearch = args.contentSearch as Array<{ contentType: string; value: string }> | undefined;
+    return {
+      statuses: args.statuses as string[] | undefined,
+      startDate: args.startDate as string | undefined,
+      endDate: args.endDate as string | undefined,
+      minMessageId: args.minMessageId as number | undefined,
+      maxMessageId: args.maxMessageId as number | undefined,
+      textSearch: args.textSearch as string | undefined,
+      textSearchRegex: args.textSearchRegex as boolean | undefined,
+      textSearchMetaDataColumns: args.textSearchMetaDataColumns as string[] | undefined,
+      contentSearch: contentSearch?.map(cs => ({ contentType: cs.contentType, searches: [cs.value] })),
+      metaDataSearch: args.metaDataSearch as MetaDataSearchElement[] | undefined,
+      includedMetaDataIds: args.includedMetaDataIds as number[] | undefined,
+      excludedMetaDataIds: args.excludedMetaDataIds as number[] | undefined,
+      error: args.errorOnly ? true : undefined,
+      attachment: args.hasAttachment as boolean | undefined,
+    };
+  }
+
+  // Normalize /channelgroups into plain group models (channels may be a list, a single object or empty)
+  private async getChannelGroupModels(): Promise<ChannelGroup[]> {
+    const rawGroups = await this.mirthClient.getChannelGroups();
+    const groupArray = (Array.isArray(rawGroups) ? rawGroups : [rawGroups]).filter(g => g && typeof g === 'object');
+    return groupArray.map(raw => {
+      const group = raw as Record<string, unknown>;
+      const channelsField = group.channels as Record<string, unknown> | unknown[] | undefined;
+      const channelList = Array.isArray(channelsField)
+        ? channelsField
+        : channelsField && typeof channelsField === 'object' && channelsField.channel
+          ? [channelsField.channel].flat()
+          : [];
+      return {
+        id: group.id as string,
+        name: group.name as string,
+        description: (group.description as string) || '',
+        revision: group.revision as number | undefined,
+        channelIds: channelList.map(c => (c as Record<string, string>).id).filter(Boolean),
+      };
+    });
+  }
+
+  private async backupChannelGroups(description: string): Promise<string> {
+    const groupsXml = await this.mirthClient.getChannelGroupsXml();
+    const backup = await this.backupManager.createBackup(
+      'channelGroups',
+      'all-groups',
+      'AllChannelGroups',
+      groupsXml,
+      description
+    );
+    return backup.metadata.id;
+  }
+
+  // Split channel XML into its connectors; propertiesXml uses the properties class as root element,
+  // which is the form the /connectors test endpoints accept
+  private extractConnectors(channelXml: string): {
+    metaDataId: number;
+    name: string;
+    mode: 'SOURCE' | 'DESTINATION';
+    transportName: string;
+    enabled: boolean;
+    propertiesClass: string;
+    propertiesXml: string;
+  }[] {
+    const blocks: { mode: 'SOURCE' | 'DESTINATION'; xml: string }[] = [];
+    const source = channelXml.match(/<sourceConnector[^>]*>([\s\S]*?)<\/sourceConnector>/);
+    if (source) blocks.push({ mode: 'SOURCE', xml: source[1] });
+    const destinations = channelXml.match(/<destinationConnectors>([\s\S]*?)<\/destinationConnectors>/);
+    for (const match of (destinations?.[1] || '').matchAll(/<connector[^>]*>([\s\S]*?)<\/connector>/g)) {
+      blocks.push({ mode: 'DESTINATION', xml: match[1] });
+    }
+
+    return blocks.map(({ mode, xml }) => {
+      const properties = xml.match(/<properties class="([^"]+)"([^>]*)>([\s\S]*?)<\/properties>/);
+      const propertiesClass = properties?.[1] || '';
+      return {
+        metaDataId: Number(xml.match(/<metaDataId>(\d+)<\/metaDataId>/)?.[1] ?? -1),
+        name: unescapeXml(xml.match(/<name>([^<]*)<\/name>/)?.[1] || ''),
+        mode,
+        transportName: unescapeXml(xml.match(/<transportName>([^<]*)<\/transportName>/)?.[1] || ''),
+        enabled: xml.match(/<enabled>([^<]*)<\/enabled>\s*(<waitForPrevious>|$)/)?.[1] !== 'false',
+        propertiesClass,
+        propertiesXml: properties ? `<${propertiesClass}${properties[2]}>${properties[3]}</${propertiesClass}>` : '',
+      };
+    });
+  }
+
+  private async ensureWsdlCached(channelId: string, wsdl: WsdlLocation, refresh: boolean): Promise<void> {
+    if (refresh || !(await this.mirthClient.isWsdlCached(channelId, wsdl))) {
+      await this.mirthClient.cacheWsdlFromUrl(channelId, wsdl);
+    }
+  }
+
+  // Flatten a DefinitionServiceMap (nested { map: { entry } } wrappers) into services -> ports -> operations
+  private parseWsdlDefinition(definition: Record<string, unknown>): {
+    service: string;
+    ports: { port: string; locationURI?: string; operations: { operation: string; soapAction?: string }[] }[];
+  }[] {
+    const entries = (node: unknown): Record<string, unknown>[] => {
+      const map = (node as Record<string, unknown> | undefined)?.map as Record<string, unknown> | undefined;
+      return map?.entry ? [map.entry].flat() as Record<string, unknown>[] : [];
+    };
+    const entryValue = (entry: Record<string, unknown>) => Object.entries(entry).find(([key]) => key !== 'string')?.[1];
+    const strings = (value: unknown): string[] => {
+      if (Array.isArray(value)) return value.map(String);
+      const wrapped = (value as Record<string, unknown> | undefined)?.string;
+      return wrapped !== undefined ? [wrapped].flat().map(String) : [];
+    };
+
+    return entries(definition).map(serviceEntry => ({
+      service: String(serviceEntry.string),
+      ports: entries(entryValue(serviceEntry)).map(portEntry => {
+        const info = (entryValue(portEntry) || {}) as Record<string, unknown>;
+        const actions = strings(info.actions);
+        return {
+          port: String(portEntry.string),
+          locationURI: info.locationURI as string | undefined,
+          operations: strings(info.operations).map((operation, i) => ({ operation, soapAction: actions[i] })),
+        };
+      }),
+    }));
+  }
+
+  // Resolve a connector from a metaDataId or name argument
+  private async resolveConnector(channelId: string, args: Record<string, unknown>): Promise<{ metaDataId: number; connectorName: string }> {
+    const names = await this.mirthClient.getConnectorNames(channelId);
+    if (args.metaDataId !== undefined) {
+      const metaDataId = Number(args.metaDataId);
+      const connectorName = names[String(metaDataId)];
+      if (connectorName === undefined) {
+        throw new Error(`Connector ${metaDataId} not found in channel ${channelId}`);
+      }
+      return { metaDataId, connectorName };
+    }
+    if (!args.connectorName) {
+      throw new Error('Either metaDataId or connectorName is required');
+    }
+    const wanted = String(args.connectorName).toLowerCase();
+    const match = Object.entries(names).find(([, name]) => name.toLowerCase() === wanted);
+    if (!match) {
+      throw new Error(`Connector "${args.connectorName}" not found in channel ${channelId}. Available: ${Object.values(names).join(', ')}`);
+    }
+    return { metaDataId: Number(match[0]), connectorName: match[1] };
+  }
+
+  private async getChannelNameMap(): Promise<Map<string, string>> {
+    const rawChannels = await this.mirthClient.getChannels();
+    const channelArray = Array.isArray(rawChannels) ? rawChannels : [rawChannels];
+    return new Map(channelArray.map(ch => [ch.id, ch.name]));
+  }
+
+  private async getChannelDependencyModels(): Promise<ChannelDependency[]> {
+    const rawDependencies = await this.mirthClient.getChannelDependencies();
+    const dependencyArray = (Array.isArray(rawDependencies) ? rawDependencies : [rawDependencies]) as Record<string, unknown>[];
+    return dependencyArray
+      .filter(d => d && typeof d === 'object' && d.dependentId && d.dependencyId)
+      .map(d => ({ dependentId: String(d.dependentId), dependencyId: String(d.dependencyId) }));
+  }
+
+  // Normalize /server/channelTags (channelIds may be a list, a { string } wrapper or empty)
+  private async getChannelTagModels(): Promise<ChannelTag[]> {
+    const rawTags = await this.mirthClient.getChannelTags();
+    const tagArray = (Array.isArray(rawTags) ? rawTags : [rawTags]) as Record<string, unknown>[];
+    return tagArray
+      .filter(t => t && typeof t === 'object' && t.id)
+      .map(tag => {
+        const idsField = tag.channelIds as Record<string, unknown> | unknown[] | undefined;
+        const channelIds = Array.isArray(idsField)
+          ? idsField
+          : idsField && typeof idsField === 'object' && idsField.string
+            ? [idsField.string].flat()
+            : [];
+        const color = tag.backgroundColor as Record<string, unknown> | undefined;
+        return {
+          id: tag.id as string,
+          name: tag.name as string,
+          channelIds: channelIds.map(String),
+          backgroundColor: color && typeof color === 'object'
+            ? { red: Number(color.red), green: Number(color.green), blue: Number(color.blue), alpha: Number(color.alpha ?? 255) }
+            : undefined,
+        };
+      });
+  }
+
+  private async backupChannelDependencies(description: string): Promise<string> {
+    const dependenciesXml = await this.mirthClient.getChannelDependenciesXml();
+    const backup = await this.backupManager.createBackup(
+      'channelDependencies',
+      'all-dependencies',
+      'AllChannelDependencies',
+      dependenciesXml,
+      description
+    );
+    return backup.metadata.id;
+  }
+
+  private async backupChannelTags(description: string): Promise<string> {
+    const tagsXml = await this.mirthClient.getChannelTagsXml();
+    const backup = await this.backupManager.createBackup(
+      'channelTags',
+      'all-tags',
+      'AllChannelTags',
+      tagsXml,
+      description
+    );
+    return backup.metadata.id;
+  }
+
+  // Topological sort restricted to the given channels - dependencies come before their dependents
+  private orderChannelsByDependencies(channelIds: string[], dependencies: ChannelDependency[]): string[] {
+    const ids = [...new Set(channelIds)];
+    const edges = dependencies.filter(d => ids.includes(d.dependentId) && ids.includes(d.dependencyId));
+    const inDegree = new Map(ids.map(id => [id, 0]));
+    for (const edge of edges) {
+      inDegree.set(edge.dependentId, (inDegree.get(edge.dependentId) || 0) + 1);
+    }
+
+    const queue = ids.filter(id => inDegree.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      order.push(id);
+      for (const edge of edges.filter(e => e.dependencyId === id)) {
+        const remaining = (inDegree.get(edge.dependentId) || 0) - 1;
+        inDegree.set(edge.dependentId, remaining);
+        if (remaining === 0) queue.push(edge.dependentId);
+      }
+    }
+
+    if (order.length < ids.length) {
+      const cyclic = ids.filter(id => !order.includes(id));
+      throw new Error(`Channel dependency cycle detected between: ${cyclic.join(', ')}`);
+    }
+    return order;
+  }
+
+  // Add everything the channels depend on, or everything that depends on them, transitively
+  private expandChannelSet(channelIds: string[], dependencies: ChannelDependency[], direction: 'dependencies' | 'dependents'): string[] {
+    const result = new Set(channelIds);
+    const pending = [...channelIds];
+    while (pending.length > 0) {
+      const id = pending.pop() as string;
+      for (const d of dependencies) {
+        const [from, to] = direction === 'dependencies' ? [d.dependentId, d.dependencyId] : [d.dependencyId, d.dependentId];
+        if (from === id && !result.has(to)) {
+          result.add(to);
+          pending.push(to);
+        }
+      }
+    }
+    return [...result];
+  }
+
+  // Poll a channel until it leaves the deploying/starting states - undefined means it never showed up as deployed
+  private async waitForChannelState(channelId: string, timeoutMs: number): Promise<string | undefined> {
+    const deadline = Date.now() + timeoutMs;
+    let state: string | undefined;
+    while (true) {
+      try {
+        const result = await this.mirthClient.getChannelStatus(channelId) as unknown as Record<string, unknown>;
+        const status = (result.dashboardStatus as Record<string, unknown>) || result;
+        state = status.state as string | undefined;
+      } catch {
+        state = undefined; // Not deployed yet
+      }
+      if ((state && state !== 'DEPLOYING' && state !== 'STARTING') || Date.now() >= deadline) {
+        return state;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  private async backupAlert(alertId: string, description: string): Promise<string> {
+    const alertXml = await this.mirthClient.getAlertXml(alertId);
+    const name = alertXml.match(/<name>([^<]*)<\/name>/)?.[1] || alertId;
+    const backup = await this.backupManager.createBackup('alert', alertId, name, alertXml, description);
+    return backup.metadata.id;
+  }
+
+  // Build a default-trigger alert that emails recipients on channel errors
+  private buildAlertXml(args: Record<string, unknown>): string {
+    const channelIds = (args.channelIds as string[]) || [];
+    const errorTypes = (args.errorTypes as string[]) || ['ANY'];
+    const recipients = (args.emailRecipients as string[]) || [];
+    const subject = (args.subject as string) || 'Mirth Alert: ${alertName}';
+    const template = (args.template as string) ||
+      'Alert: ${alertName}\nChannel: ${channelName}\nConnector: ${connectorName}\nError type: ${errorType}\nDate: ${date}\n\n${error}';
+
+    return [
+      '<alertModel>',
+      `  <id>${randomUUID()}</id>`,
+      `  <name>${escapeXml(args.name as string)}</name>`,
+      `  <enabled>${args.enabled !== false}</enabled>`,
+      '  <trigger class="defaultTrigger">',
+      '    <alertChannels>',
+      '      <newChannelSource>false</newChannelSource>',
+      '      <newChannelDestination>false</newChannelDestination>',
+      '      <enabledChannels>',
+      ...channelIds.map(id => `        <string>${escapeXml(id)}</string>`),
+      '      </enabledChannels>',
+      '      <disabledChannels/>',
+      '      <partialChannels/>',
+      '    </alertChannels>',
+      '    <errorEventTypes>',
+      ...errorTypes.map(t => `      <errorEventType>${escapeXml(t)}</errorEventType>`),
+      '    </errorEventTypes>',
+      `    <regex>${escapeXml((args.regex as string) || '')}</regex>`,
+      '  </trigger>',
+      '  <actionGroups>',
+      '    <alertActionGroup>',
+      '      <actions>',
+      ...recipients.map(r => `        <alertAction><protocol>Email</protocol><recipient>${escapeXml(r)}</recipient></alertAction>`),
+      '      </actions>',
+      `      <subject>${escapeXml(subject)}</subject>`,
+      `      <template>${escapeXml(template)}</template>`,
+      '    </alertActionGroup>',
+      '  </actionGroups>',
+      '  <properties/>',
+      '</alertModel>',
+    ].join('\n');
+  }
+
+  // Split a <list> of channels into individual <channel> elements
+  private splitChannelXml(xml: string): string[] {
+    return String(xml || '').match(/<channel(?:\s[^>]*)?>[\s\S]*?<\/channel>/g) || [];
+  }
+
+  // Storage settings come from the channel <properties>; pruning days from the channel XML
+  // export data when present, otherwise from the server's channel metadata
+  private async getChannelRetentionSettings(): Promise<{
+    channelId: string;
+    name: string;
+    messageStorageMode: string;
+    removeContentOnCompletion: boolean;
+    removeAttachmentsOnCompletion: boolean;
+    pruneMetaDataDays?: number;
+    pruneContentDays?: number;
+    archiveEnabled?: boolean;
+    pruneErroredMessages?: boolean;
+    hasRetentionPolicy: boolean;
+  }[]> {
+    const channelsXml = await this.mirthClient.getChannelsXml();
+    const metadata = await this.mirthClient.getChannelMetadata();
+    const numberOrUndefined = (value: unknown) =>
+      value === undefined || value === null || value === '' ? undefined : Number(value);
+
+    return this.splitChannelXml(channelsXml).map(xml => {
+      const channelId = xml.match(/<id>([^<]+)<\/id>/)?.[1] || '';
+      // Channel-level properties have no class attribute, unlike connector properties
+      const properties = xml.match(/<properties(?:\s+version="[^"]*")?>([\s\S]*?)<\/properties>/)?.[1] || '';
+      const property = (tag: string) => properties.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1];
+
+      let pruning: Record<string, unknown> = {};
+      const pruningXml = xml.match(/<pruningSettings>([\s\S]*?)<\/pruningSettings>/)?.[1];
+      if (pruningXml !== undefined) {
+        for (const match of pruningXml.matchAll(/<(\w+)>([^<]*)<\/\1>/g)) {
+          pruning[match[1]] = match[2];
+        }
+      } else {
+        pruning = (metadata[channelId]?.pruningSettings as Record<string, unknown>) || {};
+      }
+
+      const messageStorageMode = property('messageStorageMode') || 'DEVELOPMENT';
+      const pruneMetaDataDays = numberOrUndefined(pruning.pruneMetaDataDays);
+      const pruneContentDays = numberOrUndefined(pruning.pruneContentDays);
+      return {
+        channelId,
+        name: unescapeXml(xml.match(/<name>([^<]*)<\/name>/)?.[1] || ''),
+        messageStorageMode,
+        removeContentOnCompletion: property('removeContentOnCompletion') === 'true',
+        removeAttachmentsOnCompletion: property('removeAttachmentsOnCompletion') === 'true',
+        pruneMetaDataDays,
+        pruneContentDays,
+        archiveEnabled: pruning.archiveEnabled !== undefined ? String(pruning.archiveEnabled) === 'true' : undefined,
+        pruneErroredMessages: pruning.pruneErroredMessages !== undefined ? String(pruning.pruneErroredMessages) === 'true' : undefined,
+        // Without a metadata prune age, message rows are kept forever unless nothing is stored
+        hasRetentionPolicy: pruneMetaDataDays !== undefined || messageStorageMode === 'DISABLED',
+      };
+    });
+  }
+
+  // Direct child elements of the root element, found by tracking tag depth
+  private childElements(xml: string): { tag: string; xml: string }[] {
+    const children: { tag: string; xml: string }[] = [];
+    let depth = 0;
+    let start = 0;
+    for (const match of String(xml || '').matchAll(/<(\/?)([\w.:-]+)[^>]*?(\/?)>/g)) {
+      const [text, closing, tag, selfClosing] = match;
+      const index = match.index as number;
+      if (closing) {
+        depth--;
+        if (depth === 1) children.push({ tag, xml: xml.slice(start, index + text.length) });
+      } else if (selfClosing) {
+        if (depth === 1) children.push({ tag, xml: text });
+      } else {
+        if (depth === 1) start = index;
+        depth++;
+      }
+    }
+    return children;
+  }
+
+  private childText(xml: string, tag: string): string {
+    const child = this.childElements(xml).find(c => c.tag === tag);
+    return child ? unescapeXml(child.xml.replace(/^<[^>]*>|<\/[^>]*>$/g, '')) : '';
+  }
+
+  private countConfigurationItems(configurationXml: string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const section of this.childElements(configurationXml)) {
+      if (CONFIGURATION_LIST_SECTIONS.includes(section.tag)) {
+        counts[section.tag] = this.childElements(section.xml).length;
+      }
+    }
+    return counts;
+  }
+
+  // Per-section added/removed/modified items between the live configuration and a full backup
+  private summarizeConfigurationChanges(currentXml: string, backupXml: string): Record<string, unknown> {
+    const sections = (xml: string) => new Map(this.childElements(xml).map(s => [s.tag, s.xml]));
+    const current = sections(currentXml);
+    const target = sections(backupXml);
+    // Revisions and modification dates change on every save without affecting behavior
+    const normalize = (xml = '') => xml.replace(/<(lastModified|revision)>[\s\S]*?<\/\1>/g, '').replace(/\s+/g, '');
+    const items = (xml?: string) => new Map((xml ? this.childElements(xml) : []).map(item =>
+      [this.childText(item.xml, 'id'), { name: this.childText(item.xml, 'name'), xml: item.xml }]
+    ));
+
+    const summary: Record<string, unknown> = {
+      backupDate: this.childText(backupXml, 'date'),
+    };
+    for (const section of CONFIGURATION_LIST_SECTIONS.filter(s => s !== 'users')) {
+      const before = items(current.get(section));
+      const after = items(target.get(section));
+      const added = [...after].filter(([id]) => !before.has(id)).map(([, item]) => item.name);
+      const removed = [...before].filter(([id]) => !after.has(id)).map(([, item]) => item.name);
+      const modified = [...after]
+        .filter(([id, item]) => before.has(id) && normalize(before.get(id)?.xml) !== normalize(item.xml))
+        .map(([, item]) => item.name);
+      summary[section] = { inBackup: after.size, added, removed, modified };
+    }
+    summary.otherChangedSections = [...new Set([...current.keys(), ...target.keys()])]
+      .filter(tag => !CONFIGURATION_LIST_SECTIONS.includes(tag) && tag !== 'date')
+      .filter(tag => normalize(current.get(tag)) !== normalize(target.get(tag)));
+    return summary;
+  }
+
+  // Merge one library into the full library list: replace the library with the same ID, or add it if new
+  private mergeCodeTemplateLibrary(allLibrariesXml: string, libraryXml: string, libraryId: string): string {
+    const libraryMatch = libraryXml.match(/<codeTemplateLibrary[^>]*>[\s\S]*<\/codeTemplateLibrary>/);
+    if (!libraryMatch) {
+      throw new Error('Invalid library XML format');
+    }
+
+    if (allLibrariesXml.includes(`<id>${libraryId}</id>`)) {
+      const libraryRegex = new RegExp(
+        `<codeTemplateLibrary[^>]*>\\s*<id>${libraryId}</id>[\\s\\S]*?</codeTemplateLibrary>`,
+        'g'
+      );
+      return allLibrariesXml.replace(libraryRegex, () => libraryMatch[0]);
+    }
+    return allLibrariesXml.replace('</list>', () => `${libraryMatch[0]}\n</list>`);
+  }
+
+  // Library updates only store template references, so templates carried in the XML are written back individually
+  private async restoreCodeTemplateLibraries(librariesXml: string): Promise<number> {
+    await this.mirthClient.updateAllCodeTemplateLibraries(librariesXml, true);
+
+    let templateCount = 0;
+    for (const library of this.childElements(librariesXml)) {
+      const templates = this.childElements(library.xml).find(c => c.tag === 'codeTemplates');
+      for (const template of templates ? this.childElements(templates.xml) : []) {
+        const templateId = this.childText(template.xml, 'id');
+        if (!templateId || !this.childElements(template.xml).some(c => c.tag === 'properties')) continue;
+        await this.mirthClient.updateCodeTemplate(templateId, template.xml, true);
+        templateCount++;
+      }
+    }
+    return templateCount;
+  }
+
+  private summarizeResource(resourceXml: string): Record<string, unknown> & { id: string; type: string } {
+    const fields = new Map(this.childElements(resourceXml).map(c => [c.tag, this.childText(resourceXml, c.tag)]));
+    const bool = (tag: string) => fields.has(tag) ? fields.get(tag) === 'true' : undefined;
+    return {
+      id: fields.get('id') || '',
+      name: fields.get('name'),
+      type: fields.get('type') || '',
+      description: fields.get('description'),
+      directory: fields.get('directory'),
+      directoryRecursion: bool('directoryRecursion'),
+      includeWithGlobalScripts: bool('includeWithGlobalScripts'),
+      loadParentFirst: bool('loadParentFirst'),
+    };
+  }
+
+  // Resource ID -> channels/connectors referencing it through a <resourceIds> map
+  private async getResourceUsage(): Promise<Map<string, { channelId: string; channelName: string; scope: string }[]>> {
+    const usage = new Map<string, { channelId: string; channelName: string; scope: string }[]>();
+    const add = (resourceId: string, entry: { channelId: string; channelName: string; scope: string }) => {
+      usage.set(resourceId, [...(usage.get(resourceId) || []), entry]);
+    };
+    const resourceIds = (xml: string) =>
+      [...(xml.match(/<resourceIds[^>]*>([\s\S]*?)<\/resourceIds>/)?.[1] || '').matchAll(/<entry>\s*<string>([^<]*)<\/string>/g)]
+        .map(m => unescapeXml(m[1]));
+
+    for (const channelXml of this.splitChannelXml(await this.mirthClient.getChannelsXml())) {
+      const channelId = this.childText(channelXml, 'id');
+      const channelName = this.childText(channelXml, 'name');
+      const properties = this.childElements(channelXml).find(c => c.tag === 'properties');
+      for (const resourceId of resourceIds(properties?.xml || '')) {
+        add(resourceId, { channelId, channelName, scope: 'channel' });
+      }
+      for (const connector of this.extractConnectors(channelXml)) {
+        for (const resourceId of resourceIds(connector.propertiesXml)) {
+          add(resourceId, { channelId, channelName, scope: `connector: ${connector.name}` });
+        }
+      }
+    }
+    return usage;
+  }
+
+  // Configuration map entries parsed from XML: <map><entry><string>key</string><...ConfigurationProperty>
+  private async getConfigurationMapEntries(): Promise<Record<string, { value: string; comment?: string }>> {
+    const mapXml = await this.mirthClient.getConfigurationMapXml();
+    const entries: Record<string, { value: string; comment?: string }> = {};
+    for (const entry of this.childElements(mapXml)) {
+      const parts = this.childElements(entry.xml);
+      const key = parts.find(p => p.tag === 'string');
+      const property = parts.find(p => p.tag !== 'string');
+      if (!key) continue;
+      entries[this.childText(entry.xml, 'string')] = {
+        value: property ? this.childText(property.xml, 'value') : '',
+        comment: property ? this.childText(property.xml, 'comment') : undefined,
+      };
+    }
+    return entries;
+  }
+
+  private maskConfigurationValue(key: string, value: string): string {
+    return SECRET_KEY_PATTERN.test(key) && value ? '********' : value;
+  }
+
+  private maskConfigurationMapXml(mapXml: string): string {
+    return mapXml.replace(/<entry>\s*<string>([^<]*)<\/string>[\s\S]*?<\/entry>/g, (entry, key: string) =>
+      SECRET_KEY_PATTERN.test(unescapeXml(key))
+        ? entry.replace(/<value>[^<]+<\/value>/, '<value>********</value>')
+        : entry
+    );
+  }
+
+  private async backupConfigurationMap(description: string): Promise<string> {
+    const mapXml = await this.mirthClient.getConfigurationMapXml();
+    const backup = await this.backupManager.createBackup(
+      'configurationMap',
+      'configuration-map',
+      'ConfigurationMap',
+      mapXml,
+      description
+    );
+    return backup.metadata.id;
+  }
+
+  // Resolve a channel selector; all given criteria must match
+  private async selectChannels(selector: Record<string, unknown>): Promise<{ id: string; name: string }[]> {
+    const { channelIds, namePattern, tag, group } = selector as {
+      channelIds?: string[]; namePattern?: string; tag?: string; group?: string;
+    };
+    if (!channelIds?.length && !namePattern && !tag && !group) {
+      throw new Error('Specify at least one of channelIds, namePattern, tag or group (use namePattern "*" for all channels)');
+    }
+
+    let channels = [...(await this.getChannelNameMap())].map(([id, name]) => ({ id, name }));
+    if (channelIds?.length) {
+      const unknown = channelIds.filter(id => !channels.some(c => c.id === id));
+      if (unknown.length > 0) throw new Error(`Unknown channel ID(s): ${unknown.join(', ')}`);
+      channels = channels.filter(c => channelIds.includes(c.id));
+    }
+    if (namePattern) {
+      const regex = namePattern.match(/^\/(.*)\/([a-z]*)$/);
+      const matcher = regex
+        ? new RegExp(regex[1], regex[2].replace(/[gy]/g, '')) // g/y make test() stateful across channels
+        : new RegExp('^' + namePattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$', 'i');
+      channels = channels.filter(c => matcher.test(c.name));
+    }
+    if (tag) {
+      const match = (await this.getChannelTagModels()).find(t => t.id === tag || t.name.toLowerCase() === tag.toLowerCase());
+      if (!match) throw new Error(`Channel tag not found: ${tag}`);
+      channels = channels.filter(c => match.channelIds.includes(c.id));
+    }
+    if (group) {
+      const match = (await this.getChannelGroupModels()).find(g => g.id === group || g.name.toLowerCase() === group.toLowerCase());
+      if (!match) throw new Error(`Channel group not found: ${group}`);
+      channels = channels.filter(c => match.channelIds.includes(c.id));
+    }
+    return channels.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Enabled flag per channel from the channel metadata, falling back to the channel list on
+  // servers without /server/channelMetadata; channels whose flag can't be read are left out
+  private async getChannelEnabledFlags(): Promise<Map<string, boolean>> {
+    const flags = new Map<string, boolean>();
+    const toFlag = (value: unknown) => value === undefined || value === null ? undefined : value === true || String(value) === 'true';
+    try {
+      const metadata = await this.mirthClient.getChannelMetadata();
+      for (const [channelId, meta] of Object.entries(metadata)) {
+        const flag = toFlag(meta?.enabled);
+        if (flag !== undefined) flags.set(channelId, flag);
+      }
+    } catch {
+      // Older servers have no channel metadata
+    }
+    try {
+      const channels = await this.mirthClient.getChannels();
+      for (const channel of Array.isArray(channels) ? channels : [channels]) {
+        const flag = toFlag(channel?.enabled);
+        if (channel?.id && !flags.has(channel.id) && flag !== undefined) flags.set(channel.id, flag);
+      }
+    } catch {
+      // Leave the remaining flags unknown
+    }
+    return flags;
+  }
+
+  // Returns channelId -> backupId
+  private async backupChannels(channels: { id: string; name: string }[], description: string): Promise<Record<string, string>> {
+    const backups: Record<string, string> = {};
+    for (const channel of channels) {
+      const channelXml = await this.mirthClient.getChannelXml(channel.id);
+      const backup = await this.backupManager.createBackup('channel', channel.id, channel.name, channelXml, description);
+      backups[channel.id] = backup.metadata.id;
+    }
+    return backups;
+  }
+
+  // Current counters per channel, plus each connector (or only the given connectors)
+  private toStatisticsCounters(stats?: ChannelStatistics): StatisticsCounters {
+    return {
+      received: Number(stats?.received) || 0,
+      filtered: Number(stats?.filtered) || 0,
+      sent: Number(stats?.sent) || 0,
+      error: Number(stats?.error) || 0,
+      queued: Number(stats?.queued) || 0,
+    };
+  }
+
+  // Channel totals from a single batched call; channels without statistics report zeros
+  private async getChannelTotals(channelIds: string[]): Promise<Map<string, StatisticsCounters>> {
+    const stats = await this.mirthClient.getChannelStatistics({ channelIds, includeUndeployed: true });
+    const byId = new Map([stats].flat().filter(s => s?.channelId).map(s => [s.channelId, s]));
+    return new Map(channelIds.map(id => [id, this.toStatisticsCounters(byId.get(id))]));
+  }
+
+  private async snapshotChannelStatistics(channels: { id: string; name: string }[], metaDataIds?: number[]): Promise<StatisticsSnapshot['channels']> {
+    const totals = await this.getChannelTotals(channels.map(c => c.id));
+
+    const snapshot: StatisticsSnapshot['channels'] = [];
+    for (const channel of channels) {
+      const names = await this.mirthClient.getConnectorNames(channel.id);
+      const connectors = [];
+      for (const [metaDataId, name] of Object.entries(names)) {
+        if (metaDataIds && !metaDataIds.includes(Number(metaDataId))) continue;
+        const stats = await this.mirthClient.getChannelStatistics({
+          channelIds: [channel.id],
+          includeUndeployed: true,
+          includeMetadataIds: [Number(metaDataId)],
+        });
+        connectors.push({ metaDataId: Number(metaDataId), name, ...this.toStatisticsCounters([stats].flat()[0]) });
+      }
+      snapshot.push({
+        channelId: channel.id,
+        channelName: channel.name,
+        totals: totals.get(channel.id)!,
+        connectors: connectors.sort((a, b) => a.metaDataId - b.metaDataId),
+      });
+    }
+    return snapshot;
+  }
+
+  private getChannelInitialState(channelXml: string): string | undefined {
+    return channelXml.match(/<initialState>([^<]+)<\/initialState>/)?.[1];
+  }
+
+  private summarizeUser(user: User): Record<string, unknown> {
+    return {
+      id: user.id,
+      username: user.username,
+      name: [user.firstName, user.lastName].filter(Boolean).join(' ') || undefined,
+      email: user.email,
+      organization: user.organization,
+      role: user.role,
+      lastLogin: user.lastLogin,
+      strikeCount: user.strikeCount,
+    };
+  }
+
+  private pickUserFields(source: Record<string, unknown>): Partial<User> {
+    const fields: Record<string, string> = {};
+    for (const field of USER_FIELDS) {
+      if (source[field] !== undefined && source[field] !== null) {
+        fields[field] = String(source[field]);
+      }
+    }
+    return fields;
+  }
+
+  // Source listener host/port from listenerConnectorProperties (TCP, HTTP, Web Service, ... listeners)
+  private getSourceListener(channelXml: string): { host: string; port: string; transportName: string } | undefined {
+    const source = this.extractConnectors(channelXml).find(c => c.mode === 'SOURCE');
+    const listener = source?.propertiesXml.match(/<listenerConnectorProperties[^>]*>([\s\S]*?)<\/listenerConnectorProperties>/)?.[1];
+    const port = listener?.match(/<port>([^<]*)<\/port>/)?.[1];
+    if (!source || !port) return undefined;
+    return {
+      host: unescapeXml(listener?.match(/<host>([^<]*)<\/host>/)?.[1] || '0.0.0.0'),
+      port: unescapeXml(port),
+      transportName: source.transportName,
+    };
+  }
+
+  // Every listener port on the server, with the host taken from each channel's source connector
+  private async getListenerInventory(): Promise<{ port: string; host?: string; channelId: string; channelName: string; transportName?: string }[]> {
+    const ports = await this.mirthClient.getPortsInUse();
+    const listeners = new Map<string, { host: string; transportName: string }>();
+    for (const channelXml of this.splitChannelXml(await this.mirthClient.getChannelsXml())) {
+      const id = channelXml.match(/<id>([^<]+)<\/id>/)?.[1];
+      const listener = this.getSourceListener(channelXml);
+      if (id && listener) listeners.set(id, listener);
+    }
+    return ports
+      .map(p => ({
+        port: String(p.port),
+        host: listeners.get(p.id)?.host,
+        channelId: p.id,
+        channelName: p.name,
+        transportName: listeners.get(p.id)?.transportName,
+      }))
+      .sort((a, b) => Number(a.port) - Number(b.port) || a.channelName.localeCompare(b.channelName));
+  }
+
+  // Wildcard hosts bind every interface, so they collide with any host on the same port
+  private listenerHostsOverlap(a?: string, b?: string): boolean {
+    const wildcard = (host?: string) => !host || host === '0.0.0.0' || host === '::' || host === '*';
+    return wildcard(a) || wildcard(b) || a === b;
+  }
+
+  // Warn when the channel's source listener port is already used by another channel (best effort)
+  private async getPortConflictWarnings(channelXml: string): Promise<string[]> {
+    const listener = this.getSourceListener(channelXml);
+    if (!listener) return [];
+    const channelId = channelXml.match(/<id>([^<]+)<\/id>/)?.[1];
+    let inventory: Awaited<ReturnType<typeof this.getListenerInventory>>;
+    try {
+      inventory = await this.getListenerInventory();
+    } catch (error) {
+      return [`Could not check listener port ${listener.port} for conflicts: ${(error as Error).message}`];
+    }
+    return inventory
+      .filter(p => p.channelId !== channelId && p.port === listener.port && this.listenerHostsOverlap(p.host, listener.host))
+      .map(p => `Source listener ${listener.host}:${listener.port} conflicts with channel "${p.channelName}" (${p.channelId}) listening on ${p.host || '0.0.0.0'}:${p.port}`);
+  }
+
+  // Warn about connectors whose transport is not installed on the connected server
+  private async getMissingTransportWarnings(channelXml: string): Promise<string[]> {
+    let installed: Set<string>;
+    try {
+      installed = new Set((await this.mirthClient.getConnectorExtensions()).map(c => c.name));
+    } catch (error) {
+      return [`Could not verify installed transports: ${(error as Error).message}`];
+    }
+    return this.extractConnectors(channelXml)
+      .filter(c => c.transportName && !installed.has(c.transportName))
+      .map(c => `${c.mode === 'SOURCE' ? 'Source connector' : `Destination "${c.name}"`} uses transport "${c.transportName}", which is not installed on this server`);
+  }
+
+  // Split a serialized message list into individual <message> elements
+  private splitMessageXml(xml: string): string[] {
+    return String(xml || '').match(/<message>[\s\S]*?<\/message>/g) || [];
+  }
+
+  // Export all messages matching a filter into a single 'messages' backup
+  private async backupMessages(channelId: string, filter: MessageFilter, description: string): Promise<{
+    backupId: string;
+    messageCount: number;
+  }> {
+    let channelName = channelId;
+    try {
+      const channel = await this.mirthClient.getChannel(channelId) as Record<string, string>;
+      channelName = channel.name || channelId;
+    } catch {
+      // Ignore - use channelId as name
+    }
+
+    // Each page is appended to the backup file as soon as it is fetched
+    const pageSize = 100;
+    let messageCount = 0;
+    const backup = await this.backupManager.createBackupFromChunks(
+      'messages',
+      channelId,
+      channelName,
+      async append => {
+        await append('<list>\n');
+        while (true) {
+          const xml = await this.mirthClient.searchMessagesXml(channelId, filter, { offset: messageCount, limit: pageSize });
+          const page = this.splitMessageXml(xml);
+          for (const block of page) {
+            await append(`${block}\n`);
+          }
+          messageCount += page.length;
+          if (page.length < pageSize) break;
+        }
+        await append('</list>');
+      },
+      description
+    );
+    return { backupId: backup.metadata.id, messageCount };
+  }
+
+  private async collectFiles(directory: string, extension: string, recursive: boolean): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory() && recursive) {
+        files.push(...await this.collectFiles(entryPath, extension, recursive));
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith(extension)) {
+        files.push(entryPath);
+      }
+    }
+    return files.sort();
+  }
+
+  private generateConfirmationToken(): string {
+    return `confirm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private requireConfirmation(action: string, params: Record<string, unknown>): TextContent[] {
+    if (!this.config.requireConfirmation) {
+      return [];
+    }
+
+    const token = this.generateConfirmationToken();
+    pendingConfirmations.set(token, {
+      action,
+      params,
+      expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
+    });
+
+    return [{
+      type: 'text',
+      text: JSON.stringify({
+        status: 'confirmation_required',
+        message: `This action requires confirmation. Action: ${action}`,
+        confirmationToken: token,
+        expiresIn: '5 minutes',
+        instructions: 'Call the same tool again with the confirmationToken parameter to proceed, or call mirth_cancel_action to cancel.',
+      }, null, 2),
+    }];
+  }
+
+  private async handleToolCall(name: string, args: Record<string, unknown>): Promise<{ content: TextContent[] }> {
+    try {
+      const result = await this.executeToolCall(name, args);
+      return {
+        content: [{
+          type: 'text',
+          text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            error: true,
+            message: error instanceof Error ? error.message : String(error),
+          }, null, 2),
+        }],
+      };
+    }
+  }
+
+  private async executeToolCall(name: string, args: Record<string, unknown>): Promise<unknown> {
+    switch (name) {
+      // === Connection ===
+      case 'mirth_connect': {
+        await this.mirthClient.login();
+        this.isConnected = true;
         const info = await this.mirthClient.getServerInfo();
         return { status: 'connected', serverInfo: info };
       }
 
-      case 'mirth_disconnect': {
-        await this.mirthClient.logout();
-        this.isConnected = false;
-        return { status: 'disconnected' };
+      case 'mirth_disconnect': {
+        await this.mirthClient.logout();
+        this.isConnected = false;
+        return { status: 'disconnected' };
+      }
+
+      case 'mirth_server_info': {
+        await this.ensureConnected();
+        const [info, status] = await Promise.all([
+          this.mirthClient.getServerInfo(),
+          this.mirthClient.getServerStatus(),
+        ]);
+        return { info, status };
+      }
+
+      case 'mirth_server_health': {
+        await this.ensureConnected();
+        const requestedAt = Date.now();
+        const [
+          info, status, stats, systemInfo, jvm, about, serverTime, timezone, buildDate, channels, statuses,
+        ] = await Promise.allSettled([
+          this.mirthClient.getServerInfo(),
+          this.mirthClient.getServerStatus(),
+          this.mirthClient.getSystemStats(),
+          this.mirthClient.getSystemInfo(),
+          this.mirthClient.getServerJvm(),
+          this.mirthClient.getServerAbout(),
+          this.mirthClient.getServerTime(),
+          this.mirthClient.getServerTimezone(),
+          this.mirthClient.getServerBuildDate(),
+          this.mirthClient.getChannels(),
+          this.mirthClient.getChannelStatuses(),
+        ]);
+        const respondedAt = Date.now();
+
+        const warnings: string[] = [];
+        let critical = false;
+        const valueOf = <T>(result: PromiseSettledResult<T>, label: string): T | undefined => {
+          if (result.status === 'fulfilled') return result.value;
+          warnings.push(`Could not read ${label}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+          return undefined;
+        };
+        const percent = (part: number, total: number) => Math.round((part / total) * 1000) / 10;
+        const megabytes = (bytes: number) => Math.round(bytes / 1024 / 1024);
+
+        // Host resources
+        const systemStats = valueOf(stats, 'system stats');
+        let resources: Record<string, unknown> | undefined;
+        if (systemStats) {
+          const usedHeap = Number(systemStats.allocatedMemoryBytes) - Number(systemStats.freeMemoryBytes);
+          const maxHeap = Number(systemStats.maxMemoryBytes);
+          const diskTotal = Number(systemStats.diskTotalBytes);
+          const diskUsed = diskTotal - Number(systemStats.diskFreeBytes);
+          const cpuPct = Math.round(Number(systemStats.cpuUsagePct) * 10) / 10;
+          const heapPct = maxHeap > 0 ? percent(usedHeap, maxHeap) : undefined;
+          const diskPct = diskTotal > 0 ? percent(diskUsed, diskTotal) : undefined;
+          resources = {
+            cpuUsagePct: cpuPct,
+            heap: { usedMb: megabytes(usedHeap), allocatedMb: megabytes(Number(systemStats.allocatedMemoryBytes)), maxMb: megabytes(maxHeap), usedPct: heapPct },
+            disk: { usedMb: megabytes(diskUsed), totalMb: megabytes(diskTotal), usedPct: diskPct },
+          };
+
+          if (heapPct !== undefined && heapPct >= HEALTH_THRESHOLDS.heapWarningPct) {
+            warnings.push(`Heap usage is ${heapPct}% of the maximum (${megabytes(usedHeap)} of ${megabytes(maxHeap)} MB)`);
+            critical ||= heapPct >= HEALTH_THRESHOLDS.heapCriticalPct;
+          }
+          if (diskPct !== undefined && diskPct >= HEALTH_THRESHOLDS.diskWarningPct) {
+            warnings.push(`Disk usage is ${diskPct}% (${megabytes(Number(systemStats.diskFreeBytes))} MB free)`);
+            critical ||= diskPct >= HEALTH_THRESHOLDS.diskCriticalPct;
+          }
+          if (cpuPct >= HEALTH_THRESHOLDS.cpuWarningPct) {
+            warnings.push(`CPU usage is ${cpuPct}%`);
+          }
+        }
+
+        // Clock skew, measured against the midpoint of the request
+        const serverMillis = valueOf(serverTime, 'server time');
+        let clock: Record<string, unknown> | undefined;
+        if (serverMillis !== undefined) {
+          const skewMs = serverMillis - Math.round((requestedAt + respondedAt) / 2);
+          clock = {
+            serverTime: new Date(serverMillis).toISOString(),
+            localTime: new Date(respondedAt).toISOString(),
+            skewMs,
+            timezone: timezone.status === 'fulfilled' ? timezone.value : undefined,
+          };
+          if (Math.abs(skewMs) > HEALTH_THRESHOLDS.clockSkewWarningMs) {
+            warnings.push(`Server clock is ${Math.round(Math.abs(skewMs) / 1000)}s ${skewMs > 0 ? 'ahead of' : 'behind'} this host`);
+          }
+        }
+
+        // Server status: 0 = running, 1 = starting, 2 = stopping
+        const rawStatus = valueOf(status, 'server status') as unknown;
+        const serverStatus = typeof rawStatus === 'object' && rawStatus !== null ? (rawStatus as Record<string, unknown>).int : rawStatus;
+        if (serverStatus !== undefined && Number(serverStatus) !== 0) {
+          warnings.push(`Server status is ${serverStatus} (not running)`);
+          critical = true;
+        }
+
+        // Channels by state; channels without a dashboard status are not deployed
+        const channelList = valueOf(channels, 'channels');
+        const statusList = valueOf(statuses, 'channel statuses');
+        let channelStates: Record<string, number> | undefined;
+        if (channelList && statusList) {
+          const deployed = (Array.isArray(statusList) ? statusList : [statusList]).filter(s => s?.channelId);
+          const total = (Array.isArray(channelList) ? channelList : [channelList]).filter(c => c?.id).length;
+          channelStates = { total, UNDEPLOYED: Math.max(total - deployed.length, 0) };
+          for (const channelStatus of deployed) {
+            channelStates[channelStatus.state] = (channelStates[channelStatus.state] || 0) + 1;
+          }
+          if (channelStates.STOPPED) warnings.push(`${channelStates.STOPPED} deployed channel(s) are stopped`);
+          if (channelStates.PAUSED) warnings.push(`${channelStates.PAUSED} deployed channel(s) are paused`);
+        }
+
+        return {
+          verdict: critical ? 'critical' : warnings.length > 0 ? 'warning' : 'healthy',
+          warnings,
+          server: {
+            ...(info.status === 'fulfilled' ? info.value : {}),
+            status: serverStatus,
+            buildDate: buildDate.status === 'fulfilled' ? buildDate.value : undefined,
+            jvm: jvm.status === 'fulfilled' ? jvm.value : undefined,
+            about: about.status === 'fulfilled' ? about.value : undefined,
+          },
+          system: systemInfo.status === 'fulfilled' ? systemInfo.value : undefined,
+          resources,
+          clock,
+          channels: channelStates,
+        };
+      }
+
+      // === Channels ===
+      case 'mirth_list_channels': {
+        await this.ensureConnected();
+        const rawChannels = await this.mirthClient.getChannels();
+
+        // Extract only essential fields to reduce token usage
+        const channelArray = Array.isArray(rawChannels) ? rawChannels : [rawChannels];
+        const channels = channelArray.map((ch) => ({
+          id: ch.id,
+          name: ch.name,
+          description: ch.description || '',
+          revision: ch.revision,
+          enabled: ch.enabled ?? true
+        }));
+
+        let statuses: unknown[] = [];
+        let statistics: unknown[] = [];
+
+        if (args.includeStatus) {
+          statuses = await this.mirthClient.getChannelStatuses();
+        }
+        if (args.includeStats) {
+          statistics = await this.mirthClient.getChannelStatistics();
+        }
+
+        return { channels, statuses, statistics };
+      }
+
+      case 'mirth_get_channel': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        if (args.format === 'xml') {
+          return await this.mirthClient.getChannelXml(channelId);
+        }
+        return await this.mirthClient.getChannel(channelId);
+      }
+
+      case 'mirth_deploy_channel': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+
+        // Backup before deploy
+        const channelXml = await this.mirthClient.getChannelXml(channelId);
+        const channel = await this.mirthClient.getChannel(channelId);
+        await this.backupManager.createBackup(
+          'channel',
+          channelId,
+          (channel as Record<string, string>).name || channelId,
+          channelXml,
+          'Auto-backup before deploy'
+        );
+
+        await this.mirthClient.deployChannel(channelId);
+        return { status: 'deployed', channelId };
+      }
+
+      case 'mirth_undeploy_channel': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+
+        // Backup before undeploy
+        const channelXml = await this.mirthClient.getChannelXml(channelId);
+        const channel = await this.mirthClient.getChannel(channelId);
+        await this.backupManager.createBackup(
+          'channel',
+          channelId,
+          (channel as Record<string, string>).name || channelId,
+          channelXml,
+          'Auto-backup before undeploy'
+        );
+
+        await this.mirthClient.undeployChannel(channelId);
+        return { status: 'undeployed', channelId };
+      }
+
+      case 'mirth_start_channel': {
+        await this.ensureConnected();
+        await this.mirthClient.startChannel(args.channelId as string);
+        return { status: 'started', channelId: args.channelId };
+      }
+
+      case 'mirth_stop_channel': {
+        await this.ensureConnected();
+        await this.mirthClient.stopChannel(args.channelId as string);
+        return { status: 'stopped', channelId: args.channelId };
+      }
+
+      case 'mirth_pause_channel': {
+        await this.ensureConnected();
+        await this.mirthClient.pauseChannel(args.channelId as string);
+        return { status: 'paused', channelId: args.channelId };
+      }
+
+      case 'mirth_resume_channel': {
+        await this.ensureConnected();
+        await this.mirthClient.resumeChannel(args.channelId as string);
+        return { status: 'resumed', channelId: args.channelId };
+      }
+
+      case 'mirth_halt_channel': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `Halting channel ${channelId} interrupts in-flight messages. Use mirth_stop_channel first unless the channel is stuck.`,
+            channelId,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        await this.mirthClient.haltChannel(channelId);
+        return { status: 'halted', channelId };
+      }
+
+      case 'mirth_list_connectors': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const names = await this.mirthClient.getConnectorNames(channelId);
+
+        // Connector states are only available while the channel is deployed
+        const states = new Map<number, { state?: string; queued?: number }>();
+        try {
+          const result = await this.mirthClient.getChannelStatus(channelId) as unknown as Record<string, unknown>;
+          const status = (result.dashboardStatus as Record<string, unknown>) || result;
+          const children = status.childStatuses as Record<string, unknown> | unknown[] | undefined;
+          const childArray = Array.isArray(children)
+            ? children
+            : children && typeof children === 'object' && children.dashboardStatus
+              ? [children.dashboardStatus].flat()
+              : [];
+          for (const child of childArray as Record<string, unknown>[]) {
+            states.set(Number(child.metaDataId), {
+              state: child.state as string,
+              queued: child.queued !== undefined ? Number(child.queued) : undefined,
+            });
+          }
+        } catch {
+          // Channel not deployed
+        }
+
+        return {
+          channelId,
+          connectors: Object.entries(names)
+            .map(([metaDataId, name]) => ({
+              metaDataId: Number(metaDataId),
+              name,
+              type: metaDataId === '0' ? 'source' : 'destination',
+              ...states.get(Number(metaDataId)),
+            }))
+            .sort((a, b) => a.metaDataId - b.metaDataId),
+        };
+      }
+
+      case 'mirth_start_connector': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const connector = await this.resolveConnector(channelId, args);
+        await this.mirthClient.startConnector(channelId, connector.metaDataId);
+        return { status: 'started', channelId, ...connector };
+      }
+
+      case 'mirth_stop_connector': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const connector = await this.resolveConnector(channelId, args);
+        await this.mirthClient.stopConnector(channelId, connector.metaDataId);
+        return { status: 'stopped', channelId, ...connector };
+      }
+
+      case 'mirth_update_channel': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const channelXml = args.channelXml as string;
+
+        // Check for confirmation
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: 'Channel update requires confirmation.',
+            action: 'update_channel',
+            channelId,
+            instructions: 'Call mirth_update_channel again with the same parameters plus confirmationToken to proceed.',
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        // Backup current version first
+        const currentXml = await this.mirthClient.getChannelXml(channelId);
+        const currentChannel = await this.mirthClient.getChannel(channelId);
+        await this.backupManager.createBackup(
+          'channel',
+          channelId,
+          (currentChannel as Record<string, string>).name || channelId,
+          currentXml,
+          'Auto-backup before update'
+        );
+
+        await this.mirthClient.updateChannel(channelId, channelXml, true);
+        return { status: 'updated', channelId, backupCreated: true };
+      }
+
+      case 'mirth_delete_channel': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: 'Channel deletion requires confirmation. This action cannot be undone (but a backup will be created).',
+            action: 'delete_channel',
+            channelId,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        // Backup before delete
+        const channelXml = await this.mirthClient.getChannelXml(channelId);
+        const channel = await this.mirthClient.getChannel(channelId);
+        const backup = await this.backupManager.createBackup(
+          'channel',
+          channelId,
+          (channel as Record<string, string>).name || channelId,
+          channelXml,
+          'Auto-backup before deletion'
+        );
+
+        await this.mirthClient.deleteChannel(channelId);
+        return {
+          status: 'deleted',
+          channelId,
+          backupId: backup.metadata.id,
+          message: `Channel deleted. Backup created with ID: ${backup.metadata.id}. Use mirth_restore_backup to recover if needed.`,
+        };
+      }
+
+      case 'mirth_bulk_channel_operation': {
+        await this.ensureConnected();
+        const operation = args.operation as typeof BULK_CHANNEL_OPERATIONS[number];
+        if (!BULK_CHANNEL_OPERATIONS.includes(operation)) {
+          throw new Error(`Unknown operation: ${operation}`);
+        }
+        // Only deploying needs the enabled flags up front; unknown flags count as enabled
+        const enabledFlags = ['deploy', 'restart', 'redeployAll'].includes(operation)
+          ? await this.getChannelEnabledFlags()
+          : new Map<string, boolean>();
+        const isEnabled = (channelId: string) => enabledFlags.get(channelId) !== false;
+
+        // redeployAll acts on every enabled channel, regardless of the selector
+        const selected = operation === 'redeployAll'
+          ? [...(await this.getChannelNameMap())].map(([id, name]) => ({ id, name })).filter(c => isEnabled(c.id))
+          : await this.selectChannels(args);
+        const channelIds = selected.map(c => c.id);
+        if (selected.length === 0) {
+          return { status: 'no_match', operation, message: 'No channels match the selector.' };
+        }
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          const disabled = selected.filter(c => !isEnabled(c.id)).map(c => c.name);
+          return {
+            status: 'confirmation_required',
+            message: `${operation} will run on ${selected.length} channel(s).`,
+            action: 'bulk_channel_operation',
+            operation,
+            channels: selected,
+            backup: args.backup === true,
+            warnings: (operation === 'deploy' || operation === 'restart') && disabled.length > 0
+              ? [`Disabled channels can't be deployed or started: ${disabled.join(', ')}`]
+              : undefined,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const backups = args.backup ? await this.backupChannels(selected, `Auto-backup before bulk ${operation}`) : {};
+
+        // The batch call fails as a whole; per-channel results come from the states afterwards
+        let batchError: string | undefined;
+        try {
+          switch (operation) {
+            case 'deploy': await this.mirthClient.deployChannels(channelIds); break;
+            case 'undeploy': await this.mirthClient.undeployChannels(channelIds); break;
+            case 'redeployAll': await this.mirthClient.redeployAllChannels(); break;
+            case 'enable': await this.mirthClient.setChannelsEnabled(channelIds, true); break;
+            case 'disable': await this.mirthClient.setChannelsEnabled(channelIds, false); break;
+            case 'restart':
+              await this.mirthClient.controlChannels('stop', channelIds);
+              await this.mirthClient.controlChannels('start', channelIds);
+              break;
+            default: await this.mirthClient.controlChannels(operation, channelIds);
+          }
+        } catch (error) {
+          batchError = (error as Error).message;
+        }
+
+        // success is undefined when the resulting state can't be read
+        let results: { channelId: string; name: string; success?: boolean; state?: string; enabled?: boolean; backupId?: string }[];
+        if (operation === 'enable' || operation === 'disable') {
+          const updated = await this.getChannelEnabledFlags();
+          results = selected.map(c => {
+            const enabled = updated.get(c.id);
+            return {
+              channelId: c.id,
+              name: c.name,
+              success: enabled === undefined ? undefined : enabled === (operation === 'enable'),
+              enabled,
+              backupId: backups[c.id],
+            };
+          });
+        } else {
+          const expected: Record<string, (state?: string) => boolean> = {
+            deploy: state => state !== undefined && state !== 'DEPLOYING',
+            redeployAll: state => state !== undefined && state !== 'DEPLOYING',
+            undeploy: state => state === undefined,
+            start: state => state === 'STARTED',
+            restart: state => state === 'STARTED',
+            resume: state => state === 'STARTED',
+            stop: state => state === 'STOPPED',
+            pause: state => state === 'PAUSED',
+          };
+          const deadline = Date.now() + ((args.waitSeconds as number) ?? 60) * 1000;
+          let states = new Map<string, string>();
+          while (true) {
+            const statuses = await this.mirthClient.getChannelStatuses();
+            states = new Map((Array.isArray(statuses) ? statuses : [statuses]).filter(s => s?.channelId).map(s => [s.channelId, s.state]));
+            if (channelIds.every(id => expected[operation](states.get(id))) || Date.now() >= deadline) break;
+            await new Promise(resolve => setTimeout(resolve, 1000));
+          }
+          results = selected.map(c => ({
+            channelId: c.id,
+            name: c.name,
+            success: expected[operation](states.get(c.id)),
+            state: states.get(c.id) || 'UNDEPLOYED',
+            backupId: backups[c.id],
+          }));
+        }
+
+        const failed = results.filter(r => r.success === false).length;
+        const unverified = results.filter(r => r.success === undefined).length;
+        return {
+          status: failed === 0 ? 'completed' : failed === results.length ? 'failed' : 'partial',
+          operation,
+          succeeded: results.length - failed - unverified,
+          failed,
+          unverified: unverified > 0 ? unverified : undefined,
+          error: batchError,
+          results,
+        };
+      }
+
+      case 'mirth_set_channel_enabled': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const enabled = args.enabled as boolean;
+        await this.mirthClient.setChannelEnabled(channelId, enabled);
+
+        let deployed = false;
+        try {
+          await this.mirthClient.getChannelStatus(channelId);
+          deployed = true;
+        } catch {
+          // Not deployed
+        }
+        return {
+          status: enabled ? 'enabled' : 'disabled',
+          channelId,
+          hint: !enabled && deployed ? 'The channel is still deployed. Undeploy it to take it out of service.' : undefined,
+        };
+      }
+
+      case 'mirth_set_channel_initial_state': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const initialState = args.initialState as ChannelInitialState;
+        const previous = this.getChannelInitialState(await this.mirthClient.getChannelXml(channelId));
+        await this.mirthClient.setChannelInitialState(channelId, initialState);
+        return {
+          status: 'updated',
+          channelId,
+          initialState,
+          previousInitialState: previous,
+          hint: 'Takes effect the next time the channel is deployed.',
+        };
+      }
+
+      case 'mirth_set_channels_initial_state': {
+        await this.ensureConnected();
+        const initialState = args.initialState as ChannelInitialState;
+        const selected = await this.selectChannels(args);
+        if (selected.length === 0) {
+          return { status: 'no_match', message: 'No channels match the selector.' };
+        }
+
+        const current = new Map<string, string | undefined>();
+        for (const channel of selected) {
+          current.set(channel.id, this.getChannelInitialState(await this.mirthClient.getChannelXml(channel.id)));
+        }
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `Initial state of ${selected.length} channel(s) will be set to ${initialState}.`,
+            action: 'set_channels_initial_state',
+            initialState,
+            channels: selected.map(c => ({ ...c, initialState: current.get(c.id) })),
+            backup: args.backup === true,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const backups = args.backup ? await this.backupChannels(selected, 'Auto-backup before initial state change') : {};
+        await this.mirthClient.setChannelsInitialState(selected.map(c => c.id), initialState);
+        return {
+          status: 'updated',
+          initialState,
+          channels: selected.map(c => ({ ...c, previousInitialState: current.get(c.id), backupId: backups[c.id] })),
+          hint: 'Takes effect the next time the channels are deployed.',
+        };
+      }
+
+      case 'mirth_list_ports_in_use': {
+        await this.ensureConnected();
+        const inventory = (await this.getListenerInventory())
+          .filter(p => !args.port || p.port === String(args.port));
+
+        const conflicts: { port: string; channels: { channelId: string; channelName: string; host?: string }[] }[] = [];
+        const byPort = new Map<string, typeof inventory>();
+        for (const listener of inventory) {
+          byPort.set(listener.port, [...(byPort.get(listener.port) || []), listener]);
+        }
+        for (const [port, listeners] of byPort) {
+          const clashing = listeners.filter(a => listeners.some(b => b !== a && this.listenerHostsOverlap(a.host, b.host)));
+          if (clashing.length > 0) {
+            conflicts.push({ port, channels: clashing.map(({ channelId, channelName, host }) => ({ channelId, channelName, host })) });
+          }
+        }
+
+        return {
+          count: inventory.length,
+          ports: inventory,
+          conflicts,
+          hint: conflicts.length > 0 ? 'Only one of the conflicting channels can be deployed at a time.' : undefined,
+        };
+      }
+
+      // === Channel Groups ===
+      case 'mirth_list_channel_groups': {
+        await this.ensureConnected();
+        const groups = await this.getChannelGroupModels();
+        const rawChannels = await this.mirthClient.getChannels();
+        const channelArray = Array.isArray(rawChannels) ? rawChannels : [rawChannels];
+        const channelNames = new Map(channelArray.map(ch => [ch.id, ch.name]));
+
+        const grouped = new Set(groups.flatMap(g => g.channelIds));
+        const defaultGroupChannels = channelArray
+          .filter(ch => !grouped.has(ch.id))
+          .map(ch => ({ id: ch.id, name: ch.name }));
+
+        return {
+          groups: groups.map(g => ({
+            id: g.id,
+            name: g.name,
+            description: g.description,
+            channelCount: g.channelIds.length,
+            channels: g.channelIds.map(id => ({ id, name: channelNames.get(id) || '(unknown channel)' })),
+          })),
+          defaultGroup: {
+            channelCount: defaultGroupChannels.length,
+            channels: defaultGroupChannels,
+          },
+        };
+      }
+
+      case 'mirth_create_channel_group': {
+        await this.ensureConnected();
+        const name = args.name as string;
+        const channelIds = (args.channelIds as string[]) || [];
+        const groups = await this.getChannelGroupModels();
+
+        if (groups.some(g => g.name.toLowerCase() === name.toLowerCase())) {
+          throw new Error(`A channel group named "${name}" already exists`);
+        }
+
+        const backupId = await this.backupChannelGroups(`Auto-backup before creating group ${name}`);
+
+        // A channel can only belong to one group
+        for (const group of groups) {
+          group.channelIds = group.channelIds.filter(id => !channelIds.includes(id));
+        }
+        const newGroup: ChannelGroup = {
+          id: randomUUID(),
+          name,
+          description: (args.description as string) || '',
+          channelIds,
+        };
+        await this.mirthClient.bulkUpdateChannelGroups([...groups, newGroup]);
+
+        return {
+          status: 'created',
+          groupId: newGroup.id,
+          name,
+          channelCount: channelIds.length,
+          backupId,
+        };
+      }
+
+      case 'mirth_rename_channel_group': {
+        await this.ensureConnected();
+        const groupId = args.groupId as string;
+        const groups = await this.getChannelGroupModels();
+        const group = groups.find(g => g.id === groupId);
+        if (!group) {
+          throw new Error(`Channel group not found: ${groupId}`);
+        }
+
+        const backupId = await this.backupChannelGroups(`Auto-backup before renaming group ${group.name}`);
+
+        const previousName = group.name;
+        if (args.name) group.name = args.name as string;
+        if (args.description !== undefined) group.description = args.description as string;
+        await this.mirthClient.bulkUpdateChannelGroups(groups);
+
+        return { status: 'updated', groupId, previousName, name: group.name, backupId };
+      }
+
+      case 'mirth_move_channels_to_group': {
+        await this.ensureConnected();
+        const channelIds = args.channelIds as string[];
+        const groupId = args.groupId as string;
+        const groups = await this.getChannelGroupModels();
+
+        const toDefault = groupId.toLowerCase() === 'default';
+        const target = toDefault ? undefined : groups.find(g => g.id === groupId);
+        if (!toDefault && !target) {
+          throw new Error(`Channel group not found: ${groupId}`);
+        }
+
+        const backupId = await this.backupChannelGroups(
+          `Auto-backup before moving ${channelIds.length} channel(s) to ${target?.name || 'Default Group'}`
+        );
+
+        const moves = channelIds.map(channelId => ({
+          channelId,
+          from: groups.find(g => g.channelIds.includes(channelId))?.name || 'Default Group',
+        }));
+        for (const group of groups) {
+          group.channelIds = group.channelIds.filter(id => !channelIds.includes(id));
+        }
+        target?.channelIds.push(...channelIds);
+        await this.mirthClient.bulkUpdateChannelGroups(groups);
+
+        return {
+          status: 'moved',
+          targetGroup: target?.name || 'Default Group',
+          moves,
+          backupId,
+        };
+      }
+
+      // === Channel Dependencies & Tags ===
+      case 'mirth_get_channel_dependencies': {
+        await this.ensureConnected();
+        const dependencies = await this.getChannelDependencyModels();
+        const channelNames = await this.getChannelNameMap();
+        return {
+          count: dependencies.length,
+          dependencies: dependencies.map(d => ({
+            dependent: { id: d.dependentId, name: channelNames.get(d.dependentId) || '(unknown channel)' },
+            dependsOn: { id: d.dependencyId, name: channelNames.get(d.dependencyId) || '(unknown channel)' },
+          })),
+        };
+      }
+
+      case 'mirth_update_channel_dependencies': {
+        await this.ensureConnected();
+        const toAdd = (args.add as ChannelDependency[]) || [];
+        const toRemove = (args.remove as ChannelDependency[]) || [];
+        const sameEdge = (a: ChannelDependency, b: ChannelDependency) =>
+          a.dependentId === b.dependentId && a.dependencyId === b.dependencyId;
+
+        const current = await this.getChannelDependencyModels();
+        let updated = current.filter(d => !toRemove.some(r => sameEdge(d, r)));
+        for (const dependency of toAdd) {
+          if (dependency.dependentId === dependency.dependencyId) {
+            throw new Error(`A channel cannot depend on itself: ${dependency.dependentId}`);
+          }
+          if (!updated.some(d => sameEdge(d, dependency))) {
+            updated = [...updated, { dependentId: dependency.dependentId, dependencyId: dependency.dependencyId }];
+          }
+        }
+
+        // Throws if the new graph contains a cycle
+        this.orderChannelsByDependencies(updated.flatMap(d => [d.dependentId, d.dependencyId]), updated);
+
+        const backupId = await this.backupChannelDependencies('Auto-backup before dependency update');
+        await this.mirthClient.updateChannelDependencies(updated);
+
+        return {
+          status: 'updated',
+          previousCount: current.length,
+          count: updated.length,
+          backupId,
+        };
+      }
+
+      case 'mirth_get_channel_tags': {
+        await this.ensureConnected();
+        const tags = await this.getChannelTagModels();
+        const channelNames = await this.getChannelNameMap();
+        return {
+          count: tags.length,
+          tags: tags.map(t => ({
+            id: t.id,
+            name: t.name,
+            color: t.backgroundColor
+              ? '#' + [t.backgroundColor.red, t.backgroundColor.green, t.backgroundColor.blue]
+                .map(c => c.toString(16).padStart(2, '0')).join('').toUpperCase()
+              : undefined,
+            channels: t.channelIds.map(id => ({ id, name: channelNames.get(id) || '(unknown channel)' })),
+          })),
+        };
+      }
+
+      case 'mirth_update_channel_tag': {
+        await this.ensureConnected();
+        const name = args.name as string;
+        const tags = await this.getChannelTagModels();
+        let tag = tags.find(t => t.name.toLowerCase() === name.toLowerCase());
+
+        if (args.delete) {
+          if (!tag) {
+            throw new Error(`Channel tag not found: ${name}`);
+          }
+          const backupId = await this.backupChannelTags(`Auto-backup before deleting tag ${tag.name}`);
+          await this.mirthClient.updateChannelTags(tags.filter(t => t !== tag));
+          return { status: 'deleted', tagId: tag.id, name: tag.name, backupId };
+        }
+
+        let color: ChannelTag['backgroundColor'];
+        if (args.color) {
+          const hex = String(args.color).match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+          if (!hex) {
+            throw new Error(`Invalid color: ${args.color} (expected #RRGGBB)`);
+          }
+          color = { red: parseInt(hex[1], 16), green: parseInt(hex[2], 16), blue: parseInt(hex[3], 16), alpha: 255 };
+        }
+
+        const created = !tag;
+        if (!tag) {
+          tag = { id: randomUUID(), name, channelIds: [] };
+          tags.push(tag);
+        }
+        const addIds = (args.addChannelIds as string[]) || [];
+        const removeIds = (args.removeChannelIds as string[]) || [];
+        tag.channelIds = [...new Set([...tag.channelIds, ...addIds])].filter(id => !removeIds.includes(id));
+        if (color) tag.backgroundColor = color;
+
+        const backupId = await this.backupChannelTags(`Auto-backup before ${created ? 'creating' : 'updating'} tag ${name}`);
+        await this.mirthClient.updateChannelTags(tags);
+
+        return {
+          status: created ? 'created' : 'updated',
+          tagId: tag.id,
+          name: tag.name,
+          channelCount: tag.channelIds.length,
+          backupId,
+        };
+      }
+
+      case 'mirth_deploy_channels': {
+        await this.ensureConnected();
+        const dependencies = await this.getChannelDependencyModels();
+        const requested = args.channelIds as string[];
+        const channelIds = args.includeDependencies
+          ? this.expandChannelSet(requested, dependencies, 'dependencies')
+          : [...new Set(requested)];
+        const order = this.orderChannelsByDependencies(channelIds, dependencies);
+        const timeoutMs = ((args.startTimeoutSeconds as number) || 60) * 1000;
+        const channelNames = await this.getChannelNameMap();
+
+        // Dependencies outside the deployment set must already be running
+        const external = dependencies.filter(d => channelIds.includes(d.dependentId) && !channelIds.includes(d.dependencyId));
+        for (const dependencyId of new Set(external.map(d => d.dependencyId))) {
+          const state = await this.waitForChannelState(dependencyId, 0);
+          if (state !== 'STARTED') {
+            return {
+              status: 'aborted',
+              reason: `Dependency ${channelNames.get(dependencyId) || dependencyId} is not started (state: ${state || 'UNDEPLOYED'}). Deploy it first or use includeDependencies.`,
+              order,
+              deployed: [],
+            };
+          }
+        }
+
+        const deployed: { channelId: string; name?: string; state?: string }[] = [];
+        for (const channelId of order) {
+          const channelXml = await this.mirthClient.getChannelXml(channelId);
+          await this.backupManager.createBackup(
+            'channel',
+            channelId,
+            channelNames.get(channelId) || channelId,
+            channelXml,
+            'Auto-backup before deploy'
+          );
+
+          await this.mirthClient.deployChannel(channelId);
+          const state = await this.waitForChannelState(channelId, timeoutMs);
+          deployed.push({ channelId, name: channelNames.get(channelId), state });
+
+          const hasDependents = dependencies.some(d => d.dependencyId === channelId && channelIds.includes(d.dependentId));
+          if (hasDependents && state !== 'STARTED') {
+            return {
+              status: 'aborted',
+              reason: `Dependency ${channelNames.get(channelId) || channelId} failed to start (state: ${state || 'UNDEPLOYED'}); its dependents were not deployed.`,
+              order,
+              deployed,
+              skipped: order.slice(deployed.length),
+            };
+          }
+        }
+
+        return { status: 'deployed', order, deployed };
+      }
+
+      case 'mirth_undeploy_channels': {
+        await this.ensureConnected();
+        const dependencies = await this.getChannelDependencyModels();
+        const requested = args.channelIds as string[];
+        const channelIds = args.includeDependents
+          ? this.expandChannelSet(requested, dependencies, 'dependents')
+          : [...new Set(requested)];
+        // Dependents go first
+        const order = this.orderChannelsByDependencies(channelIds, dependencies).reverse();
+        const channelNames = await this.getChannelNameMap();
+
+        const undeployed: { channelId: string; name?: string }[] = [];
+        for (const channelId of order) {
+          const channelXml = await this.mirthClient.getChannelXml(channelId);
+          await this.backupManager.createBackup(
+            'channel',
+            channelId,
+            channelNames.get(channelId) || channelId,
+            channelXml,
+            'Auto-backup before undeploy'
+          );
+          await this.mirthClient.undeployChannel(channelId);
+          undeployed.push({ channelId, name: channelNames.get(channelId) });
+        }
+
+        // Channels left running that still depend on something undeployed here
+        const stillDependent = dependencies
+          .filter(d => channelIds.includes(d.dependencyId) && !channelIds.includes(d.dependentId))
+          .map(d => d.dependentId);
+
+        return {
+          status: 'undeployed',
+          order,
+          undeployed,
+          warnings: stillDependent.length > 0
+            ? [`These channels depend on undeployed channels and were left deployed: ${[...new Set(stillDependent)].map(id => channelNames.get(id) || id).join(', ')}`]
+            : [],
+        };
+      }
+
+      // === Alerts ===
+      case 'mirth_list_alerts': {
+        await this.ensureConnected();
+        const statuses = await this.mirthClient.getAlertStatuses();
+        const statusArray = Array.isArray(statuses) ? statuses : [statuses];
+        return {
+          count: statusArray.length,
+          alerts: statusArray.map(s => ({
+            id: s.id,
+            name: s.name,
+            enabled: s.enabled === true || String(s.enabled) === 'true',
+            alertedCount: Number(s.alertedCount) || 0,
+          })),
+        };
+      }
+
+      case 'mirth_get_alert': {
+        await this.ensureConnected();
+        const alertId = args.alertId as string;
+        if (args.format === 'xml') {
+          return await this.mirthClient.getAlertXml(alertId);
+        }
+        return await this.mirthClient.getAlert(alertId);
+      }
+
+      case 'mirth_get_alert_options': {
+        await this.ensureConnected();
+        return await this.mirthClient.getAlertOptions();
+      }
+
+      case 'mirth_create_alert': {
+        await this.ensureConnected();
+        let alertXml = args.alertXml as string | undefined;
+        if (!alertXml) {
+          if (!args.name) {
+            throw new Error('Either alertXml or name is required');
+          }
+          alertXml = this.buildAlertXml(args);
+        }
+
+        const alertId = alertXml.match(/<alertModel[^>]*>\s*<id>([^<]+)<\/id>/)?.[1];
+        const name = alertXml.match(/<name>([^<]*)<\/name>/)?.[1];
+        await this.mirthClient.createAlert(alertXml);
+
+        return { status: 'created', alertId, name };
+      }
+
+      case 'mirth_update_alert': {
+        await this.ensureConnected();
+        const alertId = args.alertId as string;
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `Updating alert ${alertId} requires confirmation. A backup will be created automatically.`,
+            alertId,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const backupId = await this.backupAlert(alertId, 'Auto-backup before update');
+        await this.mirthClient.updateAlert(alertId, args.alertXml as string);
+
+        return { status: 'updated', alertId, backupId };
+      }
+
+      case 'mirth_delete_alert': {
+        await this.ensureConnected();
+        const alertId = args.alertId as string;
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `Deleting alert ${alertId} requires confirmation. A backup will be created automatically.`,
+            alertId,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const backupId = await this.backupAlert(alertId, 'Auto-backup before delete');
+        await this.mirthClient.deleteAlert(alertId);
+
+        return { status: 'deleted', alertId, backupId };
+      }
+
+      case 'mirth_enable_alert': {
+        await this.ensureConnected();
+        await this.mirthClient.enableAlert(args.alertId as string);
+        return { status: 'enabled', alertId: args.alertId };
+      }
+
+      case 'mirth_disable_alert': {
+        await this.ensureConnected();
+        await this.mirthClient.disableAlert(args.alertId as string);
+        return { status: 'disabled', alertId: args.alertId };
+      }
+
+      // === Code Templates ===
+      case 'mirth_list_code_templates': {
+        await this.ensureConnected();
+        const libraries = await this.mirthClient.getCodeTemplateLibraries();
+        const templates = await this.mirthClient.getCodeTemplates();
+        return { libraries, templates };
+      }
+
+      case 'mirth_get_code_template': {
+        await this.ensureConnected();
+        const templateId = args.templateId as string;
+        if (args.format === 'xml') {
+          return await this.mirthClient.getCodeTemplateXml(templateId);
+        }
+        return await this.mirthClient.getCodeTemplate(templateId);
+      }
+
+      case 'mirth_get_code_template_library': {
+        await this.ensureConnected();
+        const libraryId = args.libraryId as string;
+        if (args.format === 'xml') {
+          return await this.mirthClient.getCodeTemplateLibraryXml(libraryId);
+        }
+        return await this.mirthClient.getCodeTemplateLibrary(libraryId);
+      }
+
+      // === Troubleshooting ===
+      case 'mirth_get_events': {
+        await this.ensureConnected();
+        const events = await this.mirthClient.getEvents({
+          level: args.level as string | undefined,
+          startDate: args.startDate as string | undefined,
+          endDate: args.endDate as string | undefined,
+          name: args.name as string | undefined,
+          limit: (args.limit as number) || 200, // Fetch more for dataset
+        });
+
+        // Store in dataset manager
+        const eventsArray = Array.isArray(events) ? events : [events];
+        const metadata = datasetManager.store('events', eventsArray, {
+          idField: 'id',
+        });
+
+        return {
+          datasetId: metadata.id,
+          totalEvents: metadata.totalCount,
+          totalPages: metadata.totalPages,
+          pageSize: metadata.pageSize,
+          expiresAt: metadata.expiresAt.toISOString(),
+          summary: metadata.summary,
+          hint: 'Use dataset_query to filter by level, outcome, name, or search text.',
+        };
+      }
+
+      case 'mirth_get_channel_messages': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+
+        // Get channel name for context
+        let channelName = channelId;
+        try {
+          const channel = await this.mirthClient.getChannel(channelId) as Record<string, string>;
+          channelName = channel.name || channelId;
+        } catch {
+          // Ignore - use channelId as name
+        }
+
+        const messages = await this.mirthClient.getMessages(channelId, {
+          status: args.status as string | undefined,
+          startDate: args.startDate as string | undefined,
+          endDate: args.endDate as string | undefined,
+          limit: (args.limit as number) || 100, // Fetch more for dataset
+          includeContent: true, // Always fetch full content for dataset storage
+        });
+
+        // Store in dataset manager
+        const messagesArray = Array.isArray(messages) ? messages : [messages];
+        const metadata = datasetManager.store('messages', messagesArray, {
+          channelId,
+          channelName,
+          idField: 'messageId',
+        });
+
+        return {
+          datasetId: metadata.id,
+          channelId,
+          channelName,
+          totalMessages: metadata.totalCount,
+          totalPages: metadata.totalPages,
+          pageSize: metadata.pageSize,
+          expiresAt: metadata.expiresAt.toISOString(),
+          summary: metadata.summary,
+          hint: 'Use dataset_query to browse messages, dataset_get_item to get full message content.',
+        };
+      }
+
+      case 'mirth_search_messages': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const filter = this.buildMessageFilter(args);
+
+        let channelName = channelId;
+        try {
+          const channel = await this.mirthClient.getChannel(channelId) as Record<string, string>;
+          channelName = channel.name || channelId;
+        } catch {
+          // Ignore - use channelId as name
+        }
+
+        const [totalMatching, messages] = await Promise.all([
+          this.mirthClient.countMessages(channelId, filter),
+          this.mirthClient.searchMessages(channelId, filter, {
+            includeContent: true,
+            offset: (args.offset as number) || 0,
+            limit: (args.limit as number) || 100,
+          }),
+        ]);
+
+        const messagesArray = Array.isArray(messages) ? messages : [messages];
+        const metadata = datasetManager.store('messages', messagesArray, {
+          channelId,
+          channelName,
+          idField: 'messageId',
+        });
+
+        return {
+          datasetId: metadata.id,
+          channelId,
+          channelName,
+          totalMatching,
+          totalMessages: metadata.totalCount,
+          totalPages: metadata.totalPages,
+          pageSize: metadata.pageSize,
+          expiresAt: metadata.expiresAt.toISOString(),
+          summary: metadata.summary,
+          hint: totalMatching > metadata.totalCount
+            ? `Only ${metadata.totalCount} of ${totalMatching} matches fetched. Use offset/limit to fetch more, or narrow the filter.`
+            : 'Use dataset_query to browse messages, dataset_get_item to get full message content.',
+        };
+      }
+
+      case 'mirth_list_message_attachments': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const messageId = args.messageId as number;
+
+        // Content is needed to compute sizes, but is never returned
+        const attachments = await this.mirthClient.getMessageAttachments(channelId, messageId, true);
+        const attachmentArray = (Array.isArray(attachments) ? attachments : [attachments]).filter(Boolean);
+
+        return {
+          channelId,
+          messageId,
+          count: attachmentArray.length,
+          attachments: attachmentArray.map(a => ({
+            id: a.id,
+            type: a.type,
+            sizeBytes: a.content ? Buffer.from(a.content, 'base64').length : 0,
+            encrypted: a.encrypted ?? false,
+          })),
+          hint: 'Use mirth_get_message_attachment to save an attachment to a local file.',
+        };
+      }
+
+      case 'mirth_get_message_attachment': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const messageId = args.messageId as number;
+        const attachmentId = args.attachmentId as string;
+
+        const attachment = await this.mirthClient.getMessageAttachment(channelId, messageId, attachmentId);
+        if (!attachment?.content) {
+          throw new Error(`Attachment ${attachmentId} has no content`);
+        }
+
+        const extensions: Record<string, string> = {
+          'application/pdf': 'pdf',
+          'application/xml': 'xml',
+          'application/json': 'json',
+          'text/plain': 'txt',
+          'text/xml': 'xml',
+          'text/html': 'html',
+          'image/png': 'png',
+          'image/jpeg': 'jpg',
+          'image/tiff': 'tif',
+          'application/dicom': 'dcm',
+        };
+        const extension = extensions[(attachment.type || '').toLowerCase()] || 'bin';
+        const filePath = (args.filePath as string) ||
+          path.join('./exports/attachments', `${messageId}_${attachmentId}.${extension}`);
+
+        const buffer = Buffer.from(attachment.content, 'base64');
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+
+        return {
+          status: 'saved',
+          channelId,
+          messageId,
+          attachmentId,
+          type: attachment.type,
+          sizeBytes: buffer.length,
+          encrypted: attachment.encrypted ?? false,
+          filePath: path.resolve(filePath),
+        };
+      }
+
+      case 'mirth_get_message_content': {
+        await this.ensureConnected();
+        return await this.mirthClient.getMessageContent(
+          args.channelId as string,
+          args.messageId as number,
+          (args.metaDataId as number) || 0
+        );
+      }
+
+      case 'mirth_get_channel_statistics': {
+        await this.ensureConnected();
+        if (args.channelId) {
+          return await this.mirthClient.getChannelStatistic(args.channelId as string);
+        }
+        return await this.mirthClient.getChannelStatistics();
+      }
+
+      case 'mirth_reset_statistics': {
+        await this.ensureConnected();
+        const all = args.all === true;
+        const metaDataIds = all ? undefined : args.metaDataIds as number[] | undefined;
+        const counters = all ? [...STATISTICS_COUNTERS] : (args.counters as string[] | undefined) || [...STATISTICS_COUNTERS];
+        const selected = all
+          ? [...(await this.getChannelNameMap())].map(([id, name]) => ({ id, name }))
+          : await this.selectChannels(args);
+        if (selected.length === 0) {
+          return { status: 'no_match', message: 'No channels match the selector.' };
+        }
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          const totals = await this.getChannelTotals(selected.map(c => c.id));
+          return {
+            status: 'confirmation_required',
+            message: all
+              ? `All statistics of all ${selected.length} channel(s), including lifetime statistics, will be cleared.`
+              : `${counters.join(', ')} statistics of ${metaDataIds ? `connector(s) ${metaDataIds.join(', ')} of ` : ''}${selected.length} channel(s) will be cleared.`,
+            action: 'reset_statistics',
+            counters,
+            current: selected.map(c => ({ channelId: c.id, channelName: c.name, totals: totals.get(c.id) })),
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const channels = await this.snapshotChannelStatistics(selected, metaDataIds);
+        const snapshot = await this.backupManager.recordStatisticsSnapshot({
+          reason: all ? 'Before clearing all statistics' : 'Before statistics reset',
+          clearedCounters: counters,
+          channels,
+        });
+
+        if (all) {
+          await this.mirthClient.clearAllStatistics();
+        } else {
+          const connectors: Record<string, (number | null)[]> = {};
+          for (const channel of channels) {
+            // null clears the channel totals; only included when the whole channel is reset
+            connectors[channel.channelId] = metaDataIds ?? [null, ...channel.connectors.map(c => c.metaDataId)];
+          }
+          await this.mirthClient.clearStatistics(connectors, {
+            received: counters.includes('received'),
+            filtered: counters.includes('filtered'),
+            sent: counters.includes('sent'),
+            error: counters.includes('error'),
+          });
+        }
+
+        return {
+          status: 'cleared',
+          channelCount: channels.length,
+          counters,
+          metaDataIds,
+          snapshotId: snapshot.id,
+          hint: 'Use mirth_get_statistics_history to see the counters from before the reset.',
+        };
+      }
+
+      case 'mirth_get_statistics_history': {
+        const history = await this.backupManager.getStatisticsHistory(args.channelId as string | undefined);
+        const limit = (args.limit as number) || 20;
+        return {
+          total: history.length,
+          snapshots: history.slice(0, limit),
+        };
+      }
+
+      case 'mirth_reprocess_message': {
+        await this.ensureConnected();
+        await this.mirthClient.reprocessMessage(
+          args.channelId as string,
+          args.messageId as number,
+          args.replace as boolean || false
+        );
+        return { status: 'reprocessed', channelId: args.channelId, messageId: args.messageId };
+      }
+
+      case 'mirth_reprocess_messages': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const filter = this.buildMessageFilter(args);
+        const destinationMetaDataIds = args.destinationMetaDataIds as number[] | undefined;
+        const replace = args.replace as boolean || false;
+
+        const matchCount = await this.mirthClient.countMessages(channelId, filter);
+
+        if (args.dryRun || (this.config.requireConfirmation && !args.confirmationToken)) {
+          const sample = await this.mirthClient.searchMessages(channelId, filter, { includeContent: false, limit: 10 });
+          const sampleArray = Array.isArray(sample) ? sample : [sample];
+          return {
+            status: args.dryRun ? 'dry_run' : 'confirmation_required',
+            message: `${matchCount} message(s) match the filter and would be reprocessed.`,
+            action: 'reprocess_messages',
+            channelId,
+            matchCount,
+            sampleMessageIds: sampleArray.map(m => m?.messageId).filter(id => id !== undefined),
+            destinationMetaDataIds: destinationMetaDataIds || 'all',
+            replace,
+            instructions: 'Call mirth_reprocess_messages again with the same parameters plus confirmationToken to proceed.',
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        if (matchCount === 0) {
+          return { status: 'nothing_to_reprocess', channelId, matchCount };
+        }
+
+        await this.mirthClient.reprocessMessagesWithFilter(channelId, filter, {
+          replace,
+          destinationMetaDataIds,
+        });
+        return {
+          status: 'reprocessed',
+          channelId,
+          matchCount,
+          destinationMetaDataIds: destinationMetaDataIds || 'all',
+          replace,
+        };
+      }
+
+      case 'mirth_remove_messages': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const filter = this.buildMessageFilter(args);
+        const backupBeforeRemove = args.backupBeforeRemove !== false;
+
+        const matchCount = await this.mirthClient.countMessages(channelId, filter);
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `${matchCount} message(s) match the filter and will be removed.${backupBeforeRemove ? ' They will be backed up first.' : ' NO backup will be taken.'}`,
+            action: 'remove_messages',
+            channelId,
+            matchCount,
+            backupBeforeRemove,
+            instructions: 'Call mirth_remove_messages again with the same parameters plus confirmationToken to proceed.',
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        if (matchCount === 0) {
+          return { status: 'nothing_to_remove', channelId, removedCount: 0 };
+        }
+
+        let backup: { backupId: string; messageCount: number } | undefined;
+        if (backupBeforeRemove) {
+          backup = await this.backupMessages(channelId, filter, 'Auto-backup before message removal');
+        }
+
+        await this.mirthClient.removeMessages(channelId, filter);
+        const remaining = await this.mirthClient.countMessages(channelId, filter);
+
+        return {
+          status: 'removed',
+          channelId,
+          removedCount: matchCount - remaining,
+          remainingMatches: remaining,
+          backupId: backup?.backupId,
+          backedUpMessages: backup?.messageCount,
+          message: backup
+            ? `Messages removed. Backup created with ID: ${backup.backupId}. Use mirth_restore_backup to re-import if needed.`
+            : 'Messages removed. No backup was taken.',
+        };
+      }
+
+      case 'mirth_purge_channel_messages': {
+        await this.ensureConnected();
+        const channelIds = args.channelIds as string[];
+        const clearStatistics = args.clearStatistics !== false;
+        const restartRunningChannels = args.restartRunningChannels as boolean || false;
+        const backupBeforeRemove = args.backupBeforeRemove as boolean || false;
+
+        if (!channelIds || channelIds.length === 0) {
+          throw new Error('At least one channel ID is required');
+        }
+
+        const countsBefore: Record<string, number> = {};
+        for (const channelId of channelIds) {
+          countsBefore[channelId] = await this.mirthClient.countMessages(channelId, {});
+        }
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `ALL messages will be removed from ${channelIds.length} channel(s).${backupBeforeRemove ? ' They will be backed up first.' : ' NO backup will be taken.'}`,
+            action: 'purge_channel_messages',
+            messageCounts: countsBefore,
+            clearStatistics,
+            restartRunningChannels,
+            backupBeforeRemove,
+            instructions: 'Call mirth_purge_channel_messages again with the same parameters plus confirmationToken to proceed.',
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const backups: Record<string, string> = {};
+        if (backupBeforeRemove) {
+          for (const channelId of channelIds) {
+            if (countsBefore[channelId] === 0) continue;
+            const backup = await this.backupMessages(channelId, {}, 'Auto-backup before channel purge');
+            backups[channelId] = backup.backupId;
+          }
+        }
+
+        if (channelIds.length === 1) {
+          await this.mirthClient.removeAllMessages(channelIds[0], { clearStatistics, restartRunningChannels });
+        } else {
+          await this.mirthClient.removeAllMessagesForChannels(channelIds, { clearStatistics, restartRunningChannels });
+        }
+
+        const results = [];
+        for (const channelId of channelIds) {
+          const remaining = await this.mirthClient.countMessages(channelId, {});
+          results.push({
+            channelId,
+            removedCount: countsBefore[channelId] - remaining,
+            remaining,
+            backupId: backups[channelId],
+          });
+        }
+
+        return {
+          status: 'purged',
+          totalRemoved: results.reduce((sum, r) => sum + r.removedCount, 0),
+          channels: results,
+          hint: results.some(r => r.remaining > 0)
+            ? 'Some messages remain. Running channels are skipped unless restartRunningChannels is true.'
+            : undefined,
+        };
+      }
+
+      case 'mirth_send_message': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+
+        let content = args.content as string | undefined;
+        if (content === undefined && args.filePath) {
+          content = await fs.readFile(args.filePath as string, 'utf-8');
+        }
+        if (content === undefined) {
+          throw new Error('Either content or filePath is required');
+        }
+
+        const messageId = await this.mirthClient.sendMessage(channelId, content, {
+          destinationMetaDataIds: args.destinationMetaDataIds as number[] | undefined,
+          sourceMap: args.sourceMap as Record<string, string> | undefined,
+        });
+
+        if (args.waitForCompletion === false) {
+          return { status: 'sent', channelId, messageId };
+        }
+
+        // Poll until the message is fully processed
+        const timeoutMs = ((args.timeoutSeconds as number) || 30) * 1000;
+        const deadline = Date.now() + timeoutMs;
+        let message: Record<string, unknown> | null = null;
+        while (Date.now() < deadline) {
+          try {
+            const result = await this.mirthClient.getMessage(channelId, messageId) as unknown as Record<string, unknown>;
+            message = (result.message as Record<string, unknown>) || result;
+            if (message.processed === true || message.processed === 'true') break;
+          } catch {
+            // Message may not be persisted yet
+          }
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
+
+        const processed = message?.processed === true || message?.processed === 'true';
+        const connectors = message ? this.extractConnectorMessages(message).map(cm => ({
+          metaDataId: cm.metaDataId,
+          connectorName: cm.connectorName,
+          status: cm.status,
+          processingError: cm.processingError,
+        })) : [];
+
+        return {
+          status: processed ? 'processed' : 'timeout',
+          channelId,
+          messageId,
+          processed,
+          connectors,
+          hasErrors: connectors.some(c => c.status === 'ERROR'),
+          hint: 'Use mirth_get_message_content with the messageId and a metaDataId to see transformed/encoded/response data.',
+        };
+      }
+
+      // === Global Scripts ===
+      case 'mirth_get_global_scripts': {
+        await this.ensureConnected();
+        if (args.format === 'xml') {
+          return await this.mirthClient.getGlobalScriptsXml();
+        }
+        return await this.mirthClient.getGlobalScripts();
+      }
+
+      case 'mirth_update_global_scripts': {
+        await this.ensureConnected();
+        const scriptsXml = args.scriptsXml as string;
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: 'Global scripts update requires confirmation.',
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        // Backup current scripts
+        const currentScripts = await this.mirthClient.getGlobalScriptsXml();
+        await this.backupManager.createBackup(
+          'globalScripts',
+          'global',
+          'GlobalScripts',
+          currentScripts,
+          'Auto-backup before update'
+        );
+
+        await this.mirthClient.updateGlobalScripts(scriptsXml);
+        return { status: 'updated', backupCreated: true };
+      }
+
+      case 'mirth_get_configuration_map': {
+        await this.ensureConnected();
+        const entries = await this.getConfigurationMapEntries();
+        return {
+          count: Object.keys(entries).length,
+          entries: Object.entries(entries).map(([key, property]) => ({
+            key,
+            value: args.revealSecrets ? property.value : this.maskConfigurationValue(key, property.value),
+            comment: property.comment || undefined,
+            masked: (!args.revealSecrets && SECRET_KEY_PATTERN.test(key)) || undefined,
+          })),
+        };
+      }
+
+      case 'mirth_set_configuration_value': {
+        await this.ensureConnected();
+        const key = args.key as string;
+        const entries = await this.getConfigurationMapEntries();
+        const previous = entries[key];
+
+        const backupId = await this.backupConfigurationMap(`Auto-backup before setting ${key}`);
+        entries[key] = {
+          value: args.value as string,
+          comment: args.comment !== undefined ? args.comment as string : previous?.comment,
+        };
+        await this.mirthClient.updateConfigurationMap(entries);
+
+        return {
+          status: previous ? 'updated' : 'created',
+          key,
+          previousValue: previous ? this.maskConfigurationValue(key, previous.value) : undefined,
+          value: this.maskConfigurationValue(key, entries[key].value),
+          masked: SECRET_KEY_PATTERN.test(key) || undefined,
+          backupId,
+        };
+      }
+
+      case 'mirth_delete_configuration_value': {
+        await this.ensureConnected();
+        const key = args.key as string;
+        const entries = await this.getConfigurationMapEntries();
+        if (!entries[key]) {
+          throw new Error(`Configuration map key not found: ${key}`);
+        }
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `Deleting configuration key ${key} requires confirmation. Channels reading it via $cfg will get null.`,
+            key,
+            value: this.maskConfigurationValue(key, entries[key].value),
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const backupId = await this.backupConfigurationMap(`Auto-backup before deleting ${key}`);
+        const previousValue = this.maskConfigurationValue(key, entries[key].value);
+        delete entries[key];
+        await this.mirthClient.updateConfigurationMap(entries);
+
+        return { status: 'deleted', key, previousValue, backupId };
+      }
+
+      // === Server Logs & Maps ===
+      case 'mirth_get_server_logs': {
+        await this.ensureConnected();
+        const logs = await this.mirthClient.getServerLogs({
+          fetchSize: (args.fetchSize as number) || 200, // Fetch more for dataset
+          lastLogId: args.lastLogId as number | undefined,
+        });
+
+        // Store in dataset manager
+        const logsArray = Array.isArray(logs) ? logs : [logs];
+        const metadata = datasetManager.store('serverLogs', logsArray, {
+          idField: 'id',
+        });
+
+        return {
+          datasetId: metadata.id,
+          totalLogs: metadata.totalCount,
+          totalPages: metadata.totalPages,
+          pageSize: metadata.pageSize,
+          expiresAt: metadata.expiresAt.toISOString(),
+          summary: metadata.summary,
+          hint: 'Use dataset_query to browse logs with filters (level, search), dataset_get_item for full log entry.',
+        };
       }
 
-      case 'mirth_server_info': {
+      case 'mirth_get_connection_logs': {
         await this.ensureConnected();
-        const [info, status] = await Promise.all([
-          this.mirthClient.getServerInfo(),
-          this.mirthClient.getServerStatus(),
-        ]);
-        return { info, status };
+        const logs = await this.mirthClient.getConnectionLogs({
+          fetchSize: (args.fetchSize as number) || 200,
+          serverId: args.serverId as string | undefined,
+          lastLogId: args.lastLogId as number | undefined,
+        });
+
+        const logsArray = Array.isArray(logs) ? logs : [logs];
+        const metadata = datasetManager.store('connectionLogs', logsArray, {
+          idField: 'id',
+        });
+
+        return {
+          datasetId: metadata.id,
+          totalLogs: metadata.totalCount,
+          totalPages: metadata.totalPages,
+          pageSize: metadata.pageSize,
+          expiresAt: metadata.expiresAt.toISOString(),
+          summary: metadata.summary,
+          hint: 'Use dataset_query to filter by channelName, eventState, or search text.',
+        };
       }
 
-      // === Channels ===
-      case 'mirth_list_channels': {
+      case 'mirth_get_channel_connection_logs': {
         await this.ensureConnected();
-        const rawChannels = await this.mirthClient.getChannels();
+        const channelId = args.channelId as string;
+        const logs = await this.mirthClient.getChannelConnectionLogs(
+          channelId,
+          {
+            fetchSize: (args.fetchSize as number) || 200,
+            serverId: args.serverId as string | undefined,
+            lastLogId: args.lastLogId as number | undefined,
+          }
+        );
 
-        // Extract only essential fields to reduce token usage
-        const channelArray = Array.isArray(rawChannels) ? rawChannels : [rawChannels];
-        const channels = channelArray.map((ch) => ({
-          id: ch.id,
-          name: ch.name,
-          description: ch.description || '',
-          revision: ch.revision,
-          enabled: ch.enabled ?? true
-        }));
+        const logsArray = Array.isArray(logs) ? logs : [logs];
+        const metadata = datasetManager.store('connectionLogs', logsArray, {
+          channelId,
+          idField: 'id',
+        });
 
-        let statuses: unknown[] = [];
-        let statistics: unknown[] = [];
+        return {
+          datasetId: metadata.id,
+          channelId,
+          totalLogs: metadata.totalCount,
+          totalPages: metadata.totalPages,
+          pageSize: metadata.pageSize,
+          expiresAt: metadata.expiresAt.toISOString(),
+          summary: metadata.summary,
+          hint: 'Use dataset_query to filter by eventState or search text.',
+        };
+      }
 
-        if (args.includeStatus) {
-          statuses = await this.mirthClient.getChannelStatuses();
-        }
-        if (args.includeStats) {
-          statistics = await this.mirthClient.getChannelStatistics();
-        }
+      case 'mirth_get_global_map': {
+        await this.ensureConnected();
+        return await this.mirthClient.getGlobalMap();
+      }
 
-        return { channels, statuses, statistics };
+      case 'mirth_get_channel_map': {
+        await this.ensureConnected();
+        return await this.mirthClient.getChannelMap(args.channelId as string);
       }
 
-      case 'mirth_get_channel': {
+      case 'mirth_get_all_maps': {
         await this.ensureConnected();
-        const channelId = args.channelId as string;
-        if (args.format === 'xml') {
-          return await this.mirthClient.getChannelXml(channelId);
-        }
-        return await this.mirthClient.getChannel(channelId);
+        return await this.mirthClient.getAllMaps({
+          channelIds: args.channelIds as string[] | undefined,
+          includeGlobalMap: args.includeGlobalMap as boolean | undefined,
+        });
       }
 
-      case 'mirth_deploy_channel': {
+      // === Backup & Recovery ===
+      case 'mirth_backup_channel': {
         await this.ensureConnected();
         const channelId = args.channelId as string;
-
-        // Backup before deploy
         const channelXml = await this.mirthClient.getChannelXml(channelId);
         const channel = await this.mirthClient.getChannel(channelId);
-        await this.backupManager.createBackup(
+        const backup = await this.backupManager.createBackup(
           'channel',
           channelId,
           (channel as Record<string, string>).name || channelId,
           channelXml,
-          'Auto-backup before deploy'
+          args.description as string | undefined
         );
+        return {
+          status: 'backed_up',
+          backupId: backup.metadata.id,
+          timestamp: backup.metadata.timestamp,
+          path: backup.path,
+        };
+      }
 
-        await this.mirthClient.deployChannel(channelId);
-        return { status: 'deployed', channelId };
+      case 'mirth_backup_code_template': {
+        await this.ensureConnected();
+        const templateId = args.templateId as string;
+        const templateXml = await this.mirthClient.getCodeTemplateXml(templateId);
+        const template = await this.mirthClient.getCodeTemplate(templateId);
+        const backup = await this.backupManager.createBackup(
+          'codeTemplate',
+          templateId,
+          (template as Record<string, string>).name || templateId,
+          templateXml,
+          args.description as string | undefined
+        );
+        return {
+          status: 'backed_up',
+          backupId: backup.metadata.id,
+          timestamp: backup.metadata.timestamp,
+        };
       }
 
-      case 'mirth_undeploy_channel': {
+      case 'mirth_backup_server': {
         await this.ensureConnected();
-        const channelId = args.channelId as string;
+        const configurationXml = await this.mirthClient.getServerConfigurationXml();
+        const backup = await this.backupManager.createBackup(
+          'full',
+          'server',
+          'ServerConfiguration',
+          configurationXml,
+          args.description as string | undefined
+        );
+        return {
+          status: 'backed_up',
+          backupId: backup.metadata.id,
+          timestamp: backup.metadata.timestamp,
+          path: backup.path,
+          contents: this.countConfigurationItems(configurationXml),
+        };
+      }
 
-        // Backup before undeploy
-        const channelXml = await this.mirthClient.getChannelXml(channelId);
-        const channel = await this.mirthClient.getChannel(channelId);
-        await this.backupManager.createBackup(
-          'channel',
-          channelId,
-          (channel as Record<string, string>).name || channelId,
-          channelXml,
-          'Auto-backup before undeploy'
+      case 'mirth_list_backups': {
+        const backups = await this.backupManager.listBackups(
+          args.type as BackupMetadata['type'] | undefined,
+          args.resourceId as string | undefined
+        );
+        return backups.map(b => b.metadata);
+      }
+
+      case 'mirth_get_backup': {
+        const backup = await this.backupManager.getBackup(args.backupId as string);
+        if (!backup) {
+          throw new Error(`Backup not found: ${args.backupId}`);
+        }
+        if (args.revealSecrets) {
+          return backup;
+        }
+        // Configuration map values also live in full server backups
+        const content = backup.metadata.type === 'configurationMap'
+          ? this.maskConfigurationMapXml(backup.content)
+          : backup.metadata.type === 'full'
+            ? backup.content.replace(/<configurationMap>[\s\S]*?<\/configurationMap>/, section => this.maskConfigurationMapXml(section))
+            : backup.content;
+        return { ...backup, content };
+      }
+
+      case 'mirth_restore_backup': {
+        await this.ensureConnected();
+        const backupId = args.backupId as string;
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          // A full restore replaces the whole server configuration, so show what it would change
+          const pending = await this.backupManager.getBackup(backupId);
+          const changes = pending?.metadata.type === 'full'
+            ? this.summarizeConfigurationChanges(await this.mirthClient.getServerConfigurationXml(), pending.content)
+            : undefined;
+          return {
+            status: 'confirmation_required',
+            message: 'Backup restoration requires confirmation. Current state will be backed up first.',
+            backupId,
+            changes,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const backup = await this.backupManager.getBackup(backupId);
+        if (!backup) {
+          throw new Error(`Backup not found: ${backupId}`);
+        }
+
+        const { metadata, content } = backup;
+
+        // Backup current state before restore
+        if (metadata.type === 'channel') {
+          const currentXml = await this.mirthClient.getChannelXml(metadata.resourceId);
+          const currentChannel = await this.mirthClient.getChannel(metadata.resourceId);
+          await this.backupManager.createBackup(
+            'channel',
+            metadata.resourceId,
+            (currentChannel as Record<string, string>).name || metadata.resourceId,
+            currentXml,
+            `Auto-backup before restore from ${backupId}`
+          );
+          await this.mirthClient.updateChannel(metadata.resourceId, content, true);
+        } else if (metadata.type === 'globalScripts') {
+          const currentScripts = await this.mirthClient.getGlobalScriptsXml();
+          await this.backupManager.createBackup(
+            'globalScripts',
+            'global',
+            'GlobalScripts',
+            currentScripts,
+            `Auto-backup before restore from ${backupId}`
+          );
+          await this.mirthClient.updateGlobalScripts(content);
+        } else if (metadata.type === 'channelGroups') {
+          await this.backupChannelGroups(`Auto-backup before restore from ${backupId}`);
+          // Groups created after the backup are removed so the set matches the snapshot
+          const backedUpIds = new Set(
+            [...content.matchAll(/<channelGroup[^>]*>\s*<id>([^<]+)<\/id>/g)].map(m => m[1])
+          );
+          const currentGroups = await this.getChannelGroupModels();
+          const removedIds = currentGroups.map(g => g.id).filter(id => !backedUpIds.has(id));
+          await this.mirthClient.bulkUpdateChannelGroupsXml(content, removedIds);
+        } else if (metadata.type === 'codeTemplate') {
+          try {
+            const currentXml = await this.mirthClient.getCodeTemplateXml(metadata.resourceId);
+            const currentTemplate = await this.mirthClient.getCodeTemplate(metadata.resourceId) as Record<string, string>;
+            await this.backupManager.createBackup(
+              'codeTemplate',
+              metadata.resourceId,
+              currentTemplate.name || metadata.resourceId,
+              currentXml,
+              `Auto-backup before restore from ${backupId}`
+            );
+          } catch {
+            // Template was deleted since the backup
+          }
+          await this.mirthClient.updateCodeTemplate(metadata.resourceId, content, true);
+        } else if (metadata.type === 'codeTemplateLibrary') {
+          const allLibrariesXml = await this.mirthClient.getAllCodeTemplateLibrariesXml(true);
+          await this.backupManager.createBackup(
+            'codeTemplateLibrary',
+            'all-libraries',
+            'AllCodeTemplateLibraries',
+            allLibrariesXml,
+            `Auto-backup before restore from ${backupId}`
+          );
+          // 'all-libraries' snapshots restore the whole set; single libraries are merged into it
+          const librariesXml = metadata.resourceId === 'all-libraries'
+            ? content
+            : this.mergeCodeTemplateLibrary(allLibrariesXml, content, metadata.resourceId);
+          const templateCount = await this.restoreCodeTemplateLibraries(librariesXml);
+          return { status: 'restored', backupId, resourceId: metadata.resourceId, templateCount };
+        } else if (metadata.type === 'configurationMap') {
+          await this.backupConfigurationMap(`Auto-backup before restore from ${backupId}`);
+          await this.mirthClient.updateConfigurationMapXml(content);
+        } else if (metadata.type === 'resources') {
+          const currentResources = await this.mirthClient.getResourcesXml();
+          await this.backupManager.createBackup(
+            'resources',
+            'all-resources',
+            'AllResources',
+            currentResources,
+            `Auto-backup before restore from ${backupId}`
+          );
+          await this.mirthClient.updateResourcesXml(content);
+        } else if (metadata.type === 'full') {
+          const currentConfiguration = await this.mirthClient.getServerConfigurationXml();
+          await this.backupManager.createBackup(
+            'full',
+            'server',
+            'ServerConfiguration',
+            currentConfiguration,
+            `Auto-backup before restore from ${backupId}`
+          );
+          await this.mirthClient.restoreServerConfiguration(content, {
+            deploy: args.deployChannels === true,
+            overwriteConfigMap: args.overwriteConfigMap === true,
+          });
+        } else if (metadata.type === 'channelDependencies') {
+          await this.backupChannelDependencies(`Auto-backup before restore from ${backupId}`);
+          await this.mirthClient.updateChannelDependenciesXml(content);
+        } else if (metadata.type === 'channelTags') {
+          await this.backupChannelTags(`Auto-backup before restore from ${backupId}`);
+          await this.mirthClient.updateChannelTagsXml(content);
+        } else if (metadata.type === 'alert') {
+          const alerts = await this.mirthClient.getAlerts();
+          const alertArray = (Array.isArray(alerts) ? alerts : [alerts]) as Record<string, unknown>[];
+          if (alertArray.some(a => a && a.id === metadata.resourceId)) {
+            await this.backupAlert(metadata.resourceId, `Auto-backup before restore from ${backupId}`);
+            await this.mirthClient.updateAlert(metadata.resourceId, content);
+          } else {
+            // Alert was deleted since the backup - recreate it
+            await this.mirthClient.createAlert(content);
+          }
+        } else if (metadata.type === 'messages') {
+          // Message backups are re-imported (not reprocessed) - nothing is overwritten, so no pre-restore backup
+          const blocks = this.splitMessageXml(content);
+          let importedCount = 0;
+          let firstError: string | undefined;
+          for (const block of blocks) {
+            try {
+              await this.mirthClient.importMessage(metadata.resourceId, block);
+              importedCount++;
+            } catch (error) {
+              if (!firstError) firstError = error instanceof Error ? error.message : String(error);
+            }
+          }
+          const failedCount = blocks.length - importedCount;
+          return {
+            status: failedCount === 0 ? 'restored' : 'partial',
+            backupId,
+            resourceId: metadata.resourceId,
+            importedCount,
+            failedCount,
+            firstError,
+          };
+        } else {
+          throw new Error(`Restore not supported for backup type: ${metadata.type}`);
+        }
+
+        return { status: 'restored', backupId, resourceId: metadata.resourceId };
+      }
+
+      case 'mirth_compare_backups': {
+        return await this.backupManager.compareBackups(
+          args.backupId1 as string,
+          args.backupId2 as string
+        );
+      }
+
+      case 'mirth_backup_stats': {
+        return await this.backupManager.getBackupStats();
+      }
+
+      // === Resources ===
+      case 'mirth_list_resources': {
+        await this.ensureConnected();
+        const resourcesXml = await this.mirthClient.getResourcesXml();
+        const usage = await this.getResourceUsage();
+
+        const resources = [];
+        for (const resource of this.childElements(resourcesXml)) {
+          const summary = this.summarizeResource(resource.xml);
+          let libraries: string[] | undefined;
+          if (args.includeLibraries && summary.type === 'Directory') {
+            libraries = await this.mirthClient.getDirectoryResourceLibraries(summary.id);
+          }
+          resources.push({ ...summary, libraries, usedBy: usage.get(summary.id) || [] });
+        }
+        return { count: resources.length, resources };
+      }
+
+      case 'mirth_get_resource_libraries': {
+        await this.ensureConnected();
+        const resourceId = args.resourceId as string;
+        const libraries = await this.mirthClient.getDirectoryResourceLibraries(resourceId);
+        const usage = await this.getResourceUsage();
+        return {
+          resourceId,
+          libraryCount: libraries.length,
+          libraries,
+          usedBy: usage.get(resourceId) || [],
+        };
+      }
+
+      case 'mirth_update_resource': {
+        await this.ensureConnected();
+        const resourceId = args.resourceId as string;
+        const resourcesXml = await this.mirthClient.getResourcesXml();
+        const resource = this.childElements(resourcesXml).find(r => this.childText(r.xml, 'id') === resourceId);
+        if (!resource) {
+          throw new Error(`Resource not found: ${resourceId}`);
+        }
+
+        let updatedXml = resource.xml;
+        const changed: string[] = [];
+        for (const field of ['name', 'description', 'directory', 'directoryRecursion', 'includeWithGlobalScripts', 'loadParentFirst']) {
+          if (args[field] === undefined) continue;
+          const value = escapeXml(String(args[field]));
+          const pattern = new RegExp(`<${field}>[\\s\\S]*?</${field}>|<${field}/>`);
+          if (!pattern.test(updatedXml)) {
+            throw new Error(`Resource ${resourceId} has no ${field} setting`);
+          }
+          updatedXml = updatedXml.replace(pattern, () => `<${field}>${value}</${field}>`);
+          changed.push(field);
+        }
+        if (changed.length === 0) {
+          throw new Error('No settings to update');
+        }
+
+        const backup = await this.backupManager.createBackup(
+          'resources',
+          'all-resources',
+          'AllResources',
+          resourcesXml,
+          `Auto-backup before updating resource ${resourceId}`
         );
+        await this.mirthClient.updateResourcesXml(resourcesXml.replace(resource.xml, () => updatedXml));
 
-        await this.mirthClient.undeployChannel(channelId);
-        return { status: 'undeployed', channelId };
+        return {
+          status: 'updated',
+          resourceId,
+          changed,
+          backupId: backup.metadata.id,
+          hint: 'Use mirth_reload_resource to apply library changes.',
+        };
       }
 
-      case 'mirth_start_channel': {
+      case 'mirth_reload_resource': {
         await this.ensureConnected();
-        await this.mirthClient.startChannel(args.channelId as string);
-        return { status: 'started', channelId: args.channelId };
+        const resourceId = args.resourceId as string;
+        await this.mirthClient.reloadResource(resourceId);
+        const usage = await this.getResourceUsage();
+        return {
+          status: 'reloaded',
+          resourceId,
+          usedBy: usage.get(resourceId) || [],
+          hint: 'Redeploy the channels using this resource to load the new classes.',
+        };
       }
 
-      case 'mirth_stop_channel': {
+      // === Extensions ===
+      case 'mirth_list_extensions': {
         await this.ensureConnected();
-        await this.mirthClient.stopChannel(args.channelId as string);
-        return { status: 'stopped', channelId: args.channelId };
+        const kind = (args.kind as string) || 'all';
+        const extensions = [
+          ...(kind !== 'plugin' ? await this.mirthClient.getConnectorExtensions() : []),
+          ...(kind !== 'connector' ? await this.mirthClient.getPluginExtensions() : []),
+        ];
+        const result = [];
+        for (const extension of extensions) {
+          let enabled: boolean | undefined;
+          try {
+            enabled = await this.mirthClient.isExtensionEnabled(extension.name);
+          } catch {
+            // Leave unknown if the state can't be read
+          }
+          result.push({ ...extension, enabled });
+        }
+        return {
+          count: result.length,
+          extensions: result.sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name)),
+        };
       }
 
-      case 'mirth_update_channel': {
+      case 'mirth_set_extension_enabled': {
         await this.ensureConnected();
-        const channelId = args.channelId as string;
-        const channelXml = args.channelXml as string;
+        const name = args.name as string;
+        const enabled = args.enabled as boolean;
 
-        // Check for confirmation
         if (this.config.requireConfirmation && !args.confirmationToken) {
           return {
             status: 'confirmation_required',
-            message: 'Channel update requires confirmation.',
-            action: 'update_channel',
-            channelId,
-            instructions: 'Call mirth_update_channel again with the same parameters plus confirmationToken to proceed.',
+            message: `${enabled ? 'Enabling' : 'Disabling'} extension "${name}" requires confirmation. The change takes effect after a server restart.`,
+            action: 'set_extension_enabled',
+            name,
+            enabled,
+            currentlyEnabled: await this.mirthClient.isExtensionEnabled(name),
             confirmationToken: this.generateConfirmationToken(),
           };
         }
 
-        // Backup current version first
-        const currentXml = await this.mirthClient.getChannelXml(channelId);
-        const currentChannel = await this.mirthClient.getChannel(channelId);
-        await this.backupManager.createBackup(
-          'channel',
-          channelId,
-          (currentChannel as Record<string, string>).name || channelId,
-          currentXml,
-          'Auto-backup before update'
-        );
+        await this.mirthClient.setExtensionEnabled(name, enabled);
+        return {
+          status: enabled ? 'enabled' : 'disabled',
+          name,
+          hint: 'Restart the Mirth server for the change to take effect.',
+        };
+      }
 
-        await this.mirthClient.updateChannel(channelId, channelXml, true);
-        return { status: 'updated', channelId, backupCreated: true };
+      case 'mirth_get_extension_properties': {
+        await this.ensureConnected();
+        const name = args.name as string;
+        const properties = await this.mirthClient.getExtensionProperties(name, args.propertyKeys as string[] | undefined);
+        const masked = args.revealSecrets
+          ? properties
+          : Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, this.maskConfigurationValue(key, value)]));
+        return { name, count: Object.keys(properties).length, properties: masked };
       }
 
-      case 'mirth_delete_channel': {
+      case 'mirth_update_extension_properties': {
         await this.ensureConnected();
-        const channelId = args.channelId as string;
+        const name = args.name as string;
+        const properties = Object.fromEntries(
+          Object.entries(args.properties as Record<string, unknown>).map(([key, value]) => [key, String(value)])
+        );
+        const merge = args.merge !== false;
 
         if (this.config.requireConfirmation && !args.confirmationToken) {
+          const current = await this.mirthClient.getExtensionProperties(name);
           return {
             status: 'confirmation_required',
-            message: 'Channel deletion requires confirmation. This action cannot be undone (but a backup will be created).',
-            action: 'delete_channel',
-            channelId,
+            message: `Updating ${Object.keys(properties).length} propert${Object.keys(properties).length === 1 ? 'y' : 'ies'} of extension "${name}" requires confirmation.`,
+            action: 'update_extension_properties',
+            name,
+            merge,
+            changes: Object.keys(properties).map(key => ({
+              key,
+              from: key in current ? this.maskConfigurationValue(key, current[key]) : undefined,
+              to: this.maskConfigurationValue(key, properties[key]),
+            })),
+            removedKeys: merge ? undefined : Object.keys(current).filter(key => !(key in properties)),
             confirmationToken: this.generateConfirmationToken(),
           };
         }
 
-        // Backup before delete
-        const channelXml = await this.mirthClient.getChannelXml(channelId);
-        const channel = await this.mirthClient.getChannel(channelId);
-        const backup = await this.backupManager.createBackup(
-          'channel',
-          channelId,
-          (channel as Record<string, string>).name || channelId,
-          channelXml,
-          'Auto-backup before deletion'
-        );
-
-        await this.mirthClient.deleteChannel(channelId);
+        await this.mirthClient.setExtensionProperties(name, properties, merge);
         return {
-          status: 'deleted',
-          channelId,
-          backupId: backup.metadata.id,
-          message: `Channel deleted. Backup created with ID: ${backup.metadata.id}. Use mirth_restore_backup to recover if needed.`,
+          status: 'updated',
+          name,
+          merge,
+          updatedKeys: Object.keys(properties),
         };
       }
 
-      // === Code Templates ===
-      case 'mirth_list_code_templates': {
-        await this.ensureConnected();
-        const libraries = await this.mirthClient.getCodeTemplateLibraries();
-        const templates = await this.mirthClient.getCodeTemplates();
-        return { libraries, templates };
-      }
-
-      case 'mirth_get_code_template': {
-        await this.ensureConnected();
-        const templateId = args.templateId as string;
-        if (args.format === 'xml') {
-          return await this.mirthClient.getCodeTemplateXml(templateId);
-        }
-        return await this.mirthClient.getCodeTemplate(templateId);
-      }
-
-      case 'mirth_get_code_template_library': {
+      // === Users ===
+      case 'mirth_list_users': {
         await this.ensureConnected();
-        const libraryId = args.libraryId as string;
-        if (args.format === 'xml') {
-          return await this.mirthClient.getCodeTemplateLibraryXml(libraryId);
+        const users = await this.mirthClient.getUsers();
+        const result = [];
+        for (const user of users) {
+          let loggedIn: boolean | undefined;
+          if (args.includeLoggedIn !== false) {
+            try {
+              loggedIn = await this.mirthClient.isUserLoggedIn(user.id);
+            } catch {
+              // Leave unknown if the state can't be read
+            }
+          }
+          result.push({ ...this.summarizeUser(user), loggedIn });
         }
-        return await this.mirthClient.getCodeTemplateLibrary(libraryId);
+        return { count: result.length, users: result };
       }
 
-      // === Troubleshooting ===
-      case 'mirth_get_events': {
+      case 'mirth_get_user': {
         await this.ensureConnected();
-        const events = await this.mirthClient.getEvents({
-          level: args.level as string | undefined,
-          startDate: args.startDate as string | undefined,
-          endDate: args.endDate as string | undefined,
-          name: args.name as string | undefined,
-          limit: (args.limit as number) || 200, // Fetch more for dataset
-        });
-
-        // Store in dataset manager
-        const eventsArray = Array.isArray(events) ? events : [events];
-        const metadata = datasetManager.store('events', eventsArray, {
-          idField: 'id',
-        });
-
+        const user = await this.mirthClient.getUser(args.userIdOrName as string);
         return {
-          datasetId: metadata.id,
-          totalEvents: metadata.totalCount,
-          totalPages: metadata.totalPages,
-          pageSize: metadata.pageSize,
-          expiresAt: metadata.expiresAt.toISOString(),
-          summary: metadata.summary,
-          hint: 'Use dataset_query to filter by level, outcome, name, or search text.',
+          ...user,
+          loggedIn: await this.mirthClient.isUserLoggedIn(user.id),
         };
       }
 
-      case 'mirth_get_channel_messages': {
+      case 'mirth_create_user': {
         await this.ensureConnected();
-        const channelId = args.channelId as string;
-
-        // Get channel name for context
-        let channelName = channelId;
-        try {
-          const channel = await this.mirthClient.getChannel(channelId) as Record<string, string>;
-          channelName = channel.name || channelId;
-        } catch {
-          // Ignore - use channelId as name
+        const fields = this.pickUserFields(args);
+        const password = args.password as string | undefined;
+
+        if (password !== undefined) {
+          const violations = await this.mirthClient.checkUserPassword(password);
+          if (violations.length > 0) {
+            return {
+              status: 'password_rejected',
+              violations,
+              requirements: await this.mirthClient.getPasswordRequirements(),
+              message: 'The user was not created because the password does not meet the requirements.',
+            };
+          }
         }
 
-        const messages = await this.mirthClient.getMessages(channelId, {
-          status: args.status as string | undefined,
-          startDate: args.startDate as string | undefined,
-          endDate: args.endDate as string | undefined,
-          limit: (args.limit as number) || 100, // Fetch more for dataset
-          includeContent: true, // Always fetch full content for dataset storage
-        });
-
-        // Store in dataset manager
-        const messagesArray = Array.isArray(messages) ? messages : [messages];
-        const metadata = datasetManager.store('messages', messagesArray, {
-          channelId,
-          channelName,
-          idField: 'messageId',
-        });
+        await this.mirthClient.createUser(fields);
+        const user = await this.mirthClient.getUser(fields.username as string);
+        if (password !== undefined) {
+          const violations = await this.mirthClient.updateUserPassword(user.id, password);
+          if (violations.length > 0) {
+            return {
+              status: 'created_without_password',
+              user: this.summarizeUser(user),
+              violations,
+              message: 'The user was created but the password was rejected. Use mirth_change_user_password to set one.',
+            };
+          }
+        }
 
         return {
-          datasetId: metadata.id,
-          channelId,
-          channelName,
-          totalMessages: metadata.totalCount,
-          totalPages: metadata.totalPages,
-          pageSize: metadata.pageSize,
-          expiresAt: metadata.expiresAt.toISOString(),
-          summary: metadata.summary,
-          hint: 'Use dataset_query to browse messages, dataset_get_item to get full message content.',
+          status: 'created',
+          user: this.summarizeUser(user),
+          passwordSet: password !== undefined,
+          hint: password === undefined ? 'Use mirth_change_user_password to set a password before the user can log in.' : undefined,
         };
       }
 
-      case 'mirth_get_message_content': {
-        await this.ensureConnected();
-        return await this.mirthClient.getMessageContent(
-          args.channelId as string,
-          args.messageId as number,
-          (args.metaDataId as number) || 0
-        );
-      }
-
-      case 'mirth_get_channel_statistics': {
-        await this.ensureConnected();
-        if (args.channelId) {
-          return await this.mirthClient.getChannelStatistic(args.channelId as string);
-        }
-        return await this.mirthClient.getChannelStatistics();
-      }
-
-      case 'mirth_reprocess_message': {
-        await this.ensureConnected();
-        await this.mirthClient.reprocessMessage(
-          args.channelId as string,
-          args.messageId as number,
-          args.replace as boolean || false
-        );
-        return { status: 'reprocessed', channelId: args.channelId, messageId: args.messageId };
-      }
-
-      // === Global Scripts ===
-      case 'mirth_get_global_scripts': {
+      case 'mirth_update_user': {
         await this.ensureConnected();
-        if (args.format === 'xml') {
-          return await this.mirthClient.getGlobalScriptsXml();
-        }
-        return await this.mirthClient.getGlobalScripts();
+        const userId = args.userId as number;
+        const current = await this.mirthClient.getUser(userId);
+        const changes = this.pickUserFields(args);
+        await this.mirthClient.updateUser(userId, { ...this.pickUserFields(current as unknown as Record<string, unknown>), ...changes });
+        return {
+          status: 'updated',
+          userId,
+          changes: Object.keys(changes).map(field => ({
+            field,
+            from: current[field as keyof typeof current],
+            to: changes[field as keyof typeof changes],
+          })),
+        };
       }
 
-      case 'mirth_update_global_scripts': {
+      case 'mirth_delete_user': {
         await this.ensureConnected();
-        const scriptsXml = args.scriptsXml as string;
+        const userId = args.userId as number;
+        const user = await this.mirthClient.getUser(userId);
 
         if (this.config.requireConfirmation && !args.confirmationToken) {
+          const warnings: string[] = [];
+          if (user.username === this.config.mirth.username) {
+            warnings.push('This is the account this server is connected with.');
+          }
+          if (await this.mirthClient.isUserLoggedIn(userId)) {
+            warnings.push('The user is currently logged in.');
+          }
           return {
             status: 'confirmation_required',
-            message: 'Global scripts update requires confirmation.',
+            message: `Deleting user "${user.username}" requires confirmation. This cannot be undone.`,
+            action: 'delete_user',
+            user: this.summarizeUser(user),
+            warnings: warnings.length > 0 ? warnings : undefined,
             confirmationToken: this.generateConfirmationToken(),
           };
         }
 
-        // Backup current scripts
-        const currentScripts = await this.mirthClient.getGlobalScriptsXml();
-        await this.backupManager.createBackup(
-          'globalScripts',
-          'global',
-          'GlobalScripts',
-          currentScripts,
-          'Auto-backup before update'
-        );
-
-        await this.mirthClient.updateGlobalScripts(scriptsXml);
-        return { status: 'updated', backupCreated: true };
-      }
-
-      case 'mirth_get_configuration_map': {
-        await this.ensureConnected();
-        return await this.mirthClient.getConfigurationMap();
-      }
-
-      // === Server Logs & Maps ===
-      case 'mirth_get_server_logs': {
-        await this.ensureConnected();
-        const logs = await this.mirthClient.getServerLogs({
-          fetchSize: (args.fetchSize as number) || 200, // Fetch more for dataset
-          lastLogId: args.lastLogId as number | undefined,
-        });
-
-        // Store in dataset manager
-        const logsArray = Array.isArray(logs) ? logs : [logs];
-        const metadata = datasetManager.store('serverLogs', logsArray, {
-          idField: 'id',
-        });
-
+        await this.mirthClient.deleteUser(userId);
         return {
-          datasetId: metadata.id,
-          totalLogs: metadata.totalCount,
-          totalPages: metadata.totalPages,
-          pageSize: metadata.pageSize,
-          expiresAt: metadata.expiresAt.toISOString(),
-          summary: metadata.summary,
-          hint: 'Use dataset_query to browse logs with filters (level, search), dataset_get_item for full log entry.',
+          status: 'deleted',
+          userId,
+          username: user.username,
         };
       }
 
-      case 'mirth_get_connection_logs': {
+      case 'mirth_change_user_password': {
         await this.ensureConnected();
-        const logs = await this.mirthClient.getConnectionLogs({
-          fetchSize: (args.fetchSize as number) || 200,
-          serverId: args.serverId as string | undefined,
-          lastLogId: args.lastLogId as number | undefined,
-        });
+        const userId = args.userId as number;
+        const password = args.password as string;
+        const user = await this.mirthClient.getUser(userId);
 
-        const logsArray = Array.isArray(logs) ? logs : [logs];
-        const metadata = datasetManager.store('connectionLogs', logsArray, {
-          idField: 'id',
-        });
+        const violations = await this.mirthClient.checkUserPassword(password);
+        if (violations.length > 0) {
+          return {
+            status: 'password_rejected',
+            violations,
+            requirements: await this.mirthClient.getPasswordRequirements(),
+          };
+        }
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `Changing the password of user "${user.username}" requires confirmation.`,
+            action: 'change_user_password',
+            userId,
+            username: user.username,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        // The server also enforces reuse limits, which _checkPassword can't know about
+        const rejected = await this.mirthClient.updateUserPassword(userId, password);
+        if (rejected.length > 0) {
+          return { status: 'password_rejected', violations: rejected };
+        }
+        return {
+          status: 'password_changed',
+          userId,
+          username: user.username,
+        };
+      }
 
+      case 'mirth_check_password': {
+        await this.ensureConnected();
+        const violations = await this.mirthClient.checkUserPassword(args.password as string);
         return {
-          datasetId: metadata.id,
-          totalLogs: metadata.totalCount,
-          totalPages: metadata.totalPages,
-          pageSize: metadata.pageSize,
-          expiresAt: metadata.expiresAt.toISOString(),
-          summary: metadata.summary,
-          hint: 'Use dataset_query to filter by channelName, eventState, or search text.',
+          valid: violations.length === 0,
+          violations,
+          requirements: await this.mirthClient.getPasswordRequirements(),
         };
       }
 
-      case 'mirth_get_channel_connection_logs': {
+      case 'mirth_get_user_activity': {
         await this.ensureConnected();
-        const channelId = args.channelId as string;
-        const logs = await this.mirthClient.getChannelConnectionLogs(
-          channelId,
-          {
-            fetchSize: (args.fetchSize as number) || 200,
-            serverId: args.serverId as string | undefined,
-            lastLogId: args.lastLogId as number | undefined,
+        const limit = (args.limit as number) || 500;
+        const users = args.userIdOrName
+          ? [await this.mirthClient.getUser(args.userIdOrName as string)]
+          : await this.mirthClient.getUsers();
+
+        const activity = [];
+        for (const user of users) {
+          const events = await this.mirthClient.getEvents({
+            userId: String(user.id),
+            startDate: args.startDate as string | undefined,
+            endDate: args.endDate as string | undefined,
+            limit,
+          });
+          const eventList = (Array.isArray(events) ? events : [events])
+            .filter(e => e && typeof e === 'object')
+            .sort((a, b) => Number(b.id) - Number(a.id));
+
+          const byName: Record<string, number> = {};
+          for (const event of eventList) {
+            byName[event.name] = (byName[event.name] || 0) + 1;
           }
-        );
-
-        const logsArray = Array.isArray(logs) ? logs : [logs];
-        const metadata = datasetManager.store('connectionLogs', logsArray, {
-          channelId,
-          idField: 'id',
-        });
+          const failures = eventList.filter(e => e.outcome === 'FAILURE');
+
+          const flags: string[] = [];
+          if (eventList.length === 0) flags.push('no activity in the selected period');
+          if (Number(user.strikeCount) > 0) flags.push(`${user.strikeCount} failed login strike(s)`);
+          if (failures.length > 0) flags.push(`${failures.length} failed action(s)`);
+
+          activity.push({
+            user: this.summarizeUser(user),
+            loggedIn: await this.mirthClient.isUserLoggedIn(user.id).catch(() => undefined),
+            eventCount: eventList.length,
+            truncated: eventList.length >= limit || undefined,
+            failureCount: failures.length,
+            firstEvent: eventList[eventList.length - 1]?.dateTime,
+            lastEvent: eventList[0]?.dateTime,
+            ipAddresses: [...new Set(eventList.map(e => e.ipAddress).filter(Boolean))],
+            byEventName: byName,
+            flags,
+            recentEvents: args.userIdOrName
+              ? eventList.slice(0, 50).map(e => ({ id: e.id, dateTime: e.dateTime, name: e.name, level: e.level, outcome: e.outcome, ipAddress: e.ipAddress }))
+              : undefined,
+          });
+        }
 
         return {
-          datasetId: metadata.id,
-          channelId,
-          totalLogs: metadata.totalCount,
-          totalPages: metadata.totalPages,
-          pageSize: metadata.pageSize,
-          expiresAt: metadata.expiresAt.toISOString(),
-          summary: metadata.summary,
-          hint: 'Use dataset_query to filter by eventState or search text.',
+          period: { startDate: args.startDate, endDate: args.endDate },
+          userCount: activity.length,
+          flaggedUsers: activity.filter(a => a.flags.length > 0).length,
+          users: activity,
         };
       }
 
-      case 'mirth_get_global_map': {
+      // === Data Pruner ===
+      case 'mirth_get_data_pruner_status': {
         await this.ensureConnected();
-        return await this.mirthClient.getGlobalMap();
-      }
+        const status = await this.mirthClient.getDataPrunerStatus();
 
-      case 'mirth_get_channel_map': {
-        await this.ensureConnected();
-        return await this.mirthClient.getChannelMap(args.channelId as string);
+        // Per-channel results are only available through the pruner's server events
+        let recentEvents: unknown[] = [];
+        try {
+          const events = await this.mirthClient.getEvents({ name: 'Data Pruner', limit: 20 });
+          recentEvents = (Array.isArray(events) ? events : [events])
+            .filter(e => e && typeof e === 'object')
+            .map(e => ({ dateTime: e.dateTime, level: e.level, outcome: e.outcome, attributes: e.attributes }));
+        } catch {
+          // Event access may be restricted
+        }
+
+        const result: Record<string, unknown> = { pruner: status, recentEvents };
+        if (args.includeChannelSettings !== false) {
+          const settings = await this.getChannelRetentionSettings();
+          const withoutRetention = settings.filter(s => !s.hasRetentionPolicy);
+          result.summary = {
+            channelCount: settings.length,
+            withoutRetentionPolicy: withoutRetention.length,
+          };
+          result.channels = args.onlyWithoutRetention ? withoutRetention : settings;
+        }
+        return result;
       }
 
-      case 'mirth_get_all_maps': {
+      case 'mirth_start_data_pruner': {
         await this.ensureConnected();
-        return await this.mirthClient.getAllMaps({
-          channelIds: args.channelIds as string[] | undefined,
-          includeGlobalMap: args.includeGlobalMap as boolean | undefined,
-        });
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          const status = await this.mirthClient.getDataPrunerStatus();
+          return {
+            status: 'confirmation_required',
+            message: 'Starting the data pruner permanently deletes messages older than each channel\'s retention settings.',
+            pruner: status,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        const startedAt = await this.mirthClient.startDataPruner();
+        return { status: 'started', startedAt };
       }
 
-      // === Backup & Recovery ===
-      case 'mirth_backup_channel': {
+      case 'mirth_stop_data_pruner': {
         await this.ensureConnected();
-        const channelId = args.channelId as string;
-        const channelXml = await this.mirthClient.getChannelXml(channelId);
-        const channel = await this.mirthClient.getChannel(channelId);
-        const backup = await this.backupManager.createBackup(
-          'channel',
-          channelId,
-          (channel as Record<string, string>).name || channelId,
-          channelXml,
-          args.description as string | undefined
-        );
-        return {
-          status: 'backed_up',
-          backupId: backup.metadata.id,
-          timestamp: backup.metadata.timestamp,
-          path: backup.path,
-        };
+        await this.mirthClient.stopDataPruner();
+        return { status: 'stopped' };
       }
 
-      case 'mirth_backup_code_template': {
+      // === Database Tasks ===
+      case 'mirth_list_database_tasks': {
         await this.ensureConnected();
-        const templateId = args.templateId as string;
-        const templateXml = await this.mirthClient.getCodeTemplateXml(templateId);
-        const template = await this.mirthClient.getCodeTemplate(templateId);
-        const backup = await this.backupManager.createBackup(
-          'codeTemplate',
-          templateId,
-          (template as Record<string, string>).name || templateId,
-          templateXml,
-          args.description as string | undefined
-        );
+        const tasks = await this.mirthClient.getDatabaseTasks();
         return {
-          status: 'backed_up',
-          backupId: backup.metadata.id,
-          timestamp: backup.metadata.timestamp,
+          count: tasks.length,
+          tasks: tasks.map(task => ({
+            id: task.id,
+            name: task.name,
+            status: task.status,
+            description: task.description,
+            startDateTime: task.startDateTime,
+            affectedChannels: Object.entries(task.affectedChannels).map(([id, name]) => ({ id, name })),
+          })),
         };
       }
 
-      case 'mirth_list_backups': {
-        const backups = await this.backupManager.listBackups(
-          args.type as 'channel' | 'codeTemplate' | 'codeTemplateLibrary' | 'globalScripts' | 'full' | undefined,
-          args.resourceId as string | undefined
-        );
-        return backups.map(b => b.metadata);
-      }
-
-      case 'mirth_get_backup': {
-        const backup = await this.backupManager.getBackup(args.backupId as string);
-        if (!backup) {
-          throw new Error(`Backup not found: ${args.backupId}`);
+      case 'mirth_get_database_task': {
+        await this.ensureConnected();
+        const taskId = args.taskId as string;
+        const run = this.databaseTaskRuns.get(taskId);
+        let task;
+        try {
+          task = await this.mirthClient.getDatabaseTask(taskId);
+        } catch (error) {
+          // Completed tasks are removed from the server's task list
+          if (!run) throw error;
         }
-        return backup;
+        return { taskId, task, lastRun: run };
       }
 
-      case 'mirth_restore_backup': {
+      case 'mirth_run_database_task': {
         await this.ensureConnected();
-        const backupId = args.backupId as string;
+        const taskId = args.taskId as string;
+        const task = await this.mirthClient.getDatabaseTask(taskId);
 
         if (this.config.requireConfirmation && !args.confirmationToken) {
           return {
             status: 'confirmation_required',
-            message: 'Backup restoration requires confirmation. Current state will be backed up first.',
-            backupId,
+            message: task.confirmationMessage || `Run database task "${task.name}"?`,
+            taskId,
+            description: task.description,
+            affectedChannels: Object.values(task.affectedChannels),
             confirmationToken: this.generateConfirmationToken(),
           };
         }
 
-        const backup = await this.backupManager.getBackup(backupId);
-        if (!backup) {
-          throw new Error(`Backup not found: ${backupId}`);
+        if (this.databaseTaskRuns.get(taskId)?.status === 'running') {
+          throw new Error(`Database task ${taskId} is already running`);
         }
 
-        const { metadata, content } = backup;
-
-        // Backup current state before restore
-        if (metadata.type === 'channel') {
-          const currentXml = await this.mirthClient.getChannelXml(metadata.resourceId);
-          const currentChannel = await this.mirthClient.getChannel(metadata.resourceId);
-          await this.backupManager.createBackup(
-            'channel',
-            metadata.resourceId,
-            (currentChannel as Record<string, string>).name || metadata.resourceId,
-            currentXml,
-            `Auto-backup before restore from ${backupId}`
-          );
-          await this.mirthClient.updateChannel(metadata.resourceId, content, true);
-        } else if (metadata.type === 'globalScripts') {
-          const currentScripts = await this.mirthClient.getGlobalScriptsXml();
-          await this.backupManager.createBackup(
-            'globalScripts',
-            'global',
-            'GlobalScripts',
-            currentScripts,
-            `Auto-backup before restore from ${backupId}`
-          );
-          await this.mirthClient.updateGlobalScripts(content);
-        } else {
-          throw new Error(`Restore not supported for backup type: ${metadata.type}`);
+        // The run request only returns once the task completes, so it is tracked in the background
+        const run: DatabaseTaskRun = {
+          status: 'running',
+          startedAt: new Date().toISOString(),
+        };
+        this.databaseTaskRuns.set(taskId, run);
+        const completion = this.mirthClient.runDatabaseTask(taskId)
+          .then(result => {
+            Object.assign(run, { status: 'completed', result, finishedAt: new Date().toISOString() });
+          })
+          .catch(error => {
+            Object.assign(run, { status: 'failed', error: (error as Error).message, finishedAt: new Date().toISOString() });
+          });
+
+        const waitMs = ((args.waitSeconds as number) ?? 30) * 1000;
+        let timer: NodeJS.Timeout | undefined;
+        try {
+          await Promise.race([completion, new Promise(resolve => { timer = setTimeout(resolve, waitMs); })]);
+        } finally {
+          clearTimeout(timer);
         }
 
-        return { status: 'restored', backupId, resourceId: metadata.resourceId };
-      }
-
-      case 'mirth_compare_backups': {
-        return await this.backupManager.compareBackups(
-          args.backupId1 as string,
-          args.backupId2 as string
-        );
+        return {
+          taskId,
+          name: task.name,
+          ...run,
+          hint: run.status === 'running' ? 'Task is still running. Poll with mirth_get_database_task.' : undefined,
+        };
       }
 
-      case 'mirth_backup_stats': {
-        return await this.backupManager.getBackupStats();
+      case 'mirth_cancel_database_task': {
+        await this.ensureConnected();
+        await this.mirthClient.cancelDatabaseTask(args.taskId as string);
+        return { status: 'cancel_requested', taskId: args.taskId };
       }
 
       // === File Export/Import ===
@@ -1660,6 +6128,10 @@ class MirthConnectMCPServer {
           throw new Error('Could not find channel ID in XML file');
         }
         const channelId = idMatch[1];
+        const warnings = [
+          ...await this.getMissingTransportWarnings(channelXml),
+          ...await this.getPortConflictWarnings(channelXml),
+        ];
 
         // Check for confirmation
         if (this.config.requireConfirmation && !args.confirmationToken) {
@@ -1670,6 +6142,7 @@ class MirthConnectMCPServer {
             channelId,
             filePath,
             deploy,
+            warnings: warnings.length > 0 ? warnings : undefined,
             confirmationToken: this.generateConfirmationToken(),
           };
         }
@@ -1702,6 +6175,7 @@ class MirthConnectMCPServer {
           channelId,
           deployed: deploy,
           filePath: path.resolve(filePath),
+          warnings: warnings.length > 0 ? warnings : undefined,
           message: deploy
             ? `Channel imported and deployed from ${filePath}`
             : `Channel imported from ${filePath}. Use mirth_deploy_channel to deploy.`,
@@ -1917,35 +6391,8 @@ class MirthConnectMCPServer {
           `Auto-backup before importing library from ${path.basename(filePath)}`
         );
 
-        // Parse existing libraries and merge with imported one
-        // Strategy: Replace library with same ID, or add if new
-        let mergedXml: string;
-
-        if (allLibrariesXml.includes(`<id>${libraryId}</id>`)) {
-          // Library exists - replace it in the list
-          // Find and replace the library block
-          const libraryRegex = new RegExp(
-            `<codeTemplateLibrary[^>]*>\\s*<id>${libraryId}</id>[\\s\\S]*?</codeTemplateLibrary>`,
-            'g'
-          );
-
-          // Extract just the library content from the imported file
-          const importedLibraryMatch = libraryXml.match(/<codeTemplateLibrary[^>]*>[\s\S]*<\/codeTemplateLibrary>/);
-          if (!importedLibraryMatch) {
-            throw new Error('Invalid library XML format');
-          }
-
-          mergedXml = allLibrariesXml.replace(libraryRegex, importedLibraryMatch[0]);
-        } else {
-          // Library is new - add it to the list
-          const importedLibraryMatch = libraryXml.match(/<codeTemplateLibrary[^>]*>[\s\S]*<\/codeTemplateLibrary>/);
-          if (!importedLibraryMatch) {
-            throw new Error('Invalid library XML format');
-          }
-
-          // Insert before closing </list> tag
-          mergedXml = allLibrariesXml.replace('</list>', `${importedLibraryMatch[0]}\n</list>`);
-        }
+        // Replace the library with the same ID, or add it if new
+        const mergedXml = this.mergeCodeTemplateLibrary(allLibrariesXml, libraryXml, libraryId);
 
         // Update all libraries with the merged version
         await this.mirthClient.updateAllCodeTemplateLibraries(mergedXml, true);
@@ -1958,6 +6405,182 @@ class MirthConnectMCPServer {
         };
       }
 
+      case 'mirth_export_messages': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const directory = args.directory as string;
+        const filter = this.buildMessageFilter(args);
+        const contentType = args.contentType as string | undefined;
+        const destinationContent = args.destinationContent as boolean || false;
+        const archive = args.format === 'archive';
+
+        if (args.target === 'server') {
+          const writerOptions = {
+            rootFolder: directory,
+            filePattern: contentType ? '${message.messageId}.txt' : '${message.messageId}.xml',
+            contentType,
+            destinationContent,
+            includeAttachments: args.includeAttachments as boolean || false,
+            archiveFileName: archive ? `${channelId}_messages` : undefined,
+            archiveFormat: archive ? 'zip' as const : undefined,
+          };
+          const exportedCount = args.queryParameterExport
+            ? await this.mirthClient.exportMessages(channelId, filter, writerOptions)
+            : await this.mirthClient.exportMessagesUsingFilter(channelId, filter, writerOptions);
+          return {
+            status: 'exported',
+            target: 'server',
+            channelId,
+            directory,
+            exportedCount,
+            message: `${exportedCount} message(s) written to ${directory} on the Mirth server.`,
+          };
+        }
+
+        if (archive && contentType) {
+          throw new Error('Local archive format requires full messages. Omit contentType or use format: xml.');
+        }
+
+        await fs.mkdir(directory, { recursive: true });
+        const maxMessages = (args.maxMessages as number) || 1000;
+        const pageSize = 100;
+        const files: string[] = [];
+        const archiveBlocks: string[] = [];
+        let exportedCount = 0;
+        let offset = 0;
+
+        while (exportedCount < maxMessages) {
+          const limit = Math.min(pageSize, maxMessages - exportedCount);
+          let fetched: number;
+
+          if (contentType) {
+            // Extract a single content type from the source (or destination) connector messages
+            const contentField = contentType.toLowerCase().replace(/_(\w)/g, (_, c: string) => c.toUpperCase());
+            const page = await this.mirthClient.searchMessages(channelId, filter, { includeContent: true, offset, limit });
+            const messages = (Array.isArray(page) ? page : [page]).filter(Boolean) as unknown as Array<Record<string, unknown>>;
+            for (const message of messages) {
+              for (const cm of this.extractConnectorMessages(message)) {
+                if (destinationContent ? cm.metaDataId === 0 : cm.metaDataId !== 0) continue;
+                const content = ((cm as unknown as Record<string, Record<string, unknown>>)[contentField])?.content;
+                if (typeof content !== 'string') continue;
+                const fileName = destinationContent ? `${message.messageId}_${cm.metaDataId}.txt` : `${message.messageId}.txt`;
+                const filePath = path.join(directory, fileName);
+                await fs.writeFile(filePath, content, 'utf-8');
+                files.push(filePath);
+              }
+            }
+            fetched = messages.length;
+          } else {
+            const xml = await this.mirthClient.searchMessagesXml(channelId, filter, { offset, limit });
+            const blocks = this.splitMessageXml(xml);
+            for (const block of blocks) {
+              if (archive) {
+                archiveBlocks.push(block);
+                continue;
+              }
+              const idMatch = block.match(/<messageId>(\d+)<\/messageId>/);
+              const filePath = path.join(directory, `${idMatch ? idMatch[1] : `message_${offset + files.length}`}.xml`);
+              await fs.writeFile(filePath, block, 'utf-8');
+              files.push(filePath);
+            }
+            fetched = blocks.length;
+          }
+
+          exportedCount += fetched;
+          offset += fetched;
+          if (fetched < limit) break;
+        }
+
+        if (archive) {
+          const archivePath = path.join(directory, `${channelId}_messages_${new Date().toISOString().replace(/[:.]/g, '-')}.xml`);
+          await fs.writeFile(archivePath, `<list>\n${archiveBlocks.join('\n')}\n</list>`, 'utf-8');
+          files.push(archivePath);
+        }
+
+        // Record what was exported so fixtures can be traced back to their source
+        await fs.writeFile(path.join(directory, 'export.meta.json'), JSON.stringify({
+          channelId,
+          filter,
+          contentType,
+          destinationContent,
+          exportedCount,
+          exportedAt: new Date().toISOString(),
+        }, null, 2), 'utf-8');
+
+        return {
+          status: 'exported',
+          target: 'local',
+          channelId,
+          directory: path.resolve(directory),
+          exportedCount,
+          fileCount: files.length,
+          files: files.slice(0, 20).map(f => path.resolve(f)),
+          hint: exportedCount >= maxMessages
+            ? `Stopped at maxMessages (${maxMessages}). Narrow the filter or raise maxMessages to export more.`
+            : contentType
+              ? 'Content files can be replayed with mirth_send_message (filePath).'
+              : 'Use mirth_import_messages to re-import these messages into a channel.',
+        };
+      }
+
+      case 'mirth_import_messages': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const sourcePath = args.path as string;
+        const includeSubfolders = args.includeSubfolders as boolean || false;
+
+        if (this.config.requireConfirmation && !args.confirmationToken) {
+          return {
+            status: 'confirmation_required',
+            message: `Message import requires confirmation. Will import messages from ${sourcePath} into channel ${channelId}.`,
+            action: 'import_messages',
+            channelId,
+            path: sourcePath,
+            confirmationToken: this.generateConfirmationToken(),
+          };
+        }
+
+        if (args.source === 'server') {
+          const result = await this.mirthClient.importMessagesFromPath(channelId, sourcePath, includeSubfolders);
+          return { status: 'imported', source: 'server', channelId, path: sourcePath, ...result };
+        }
+
+        const stat = await fs.stat(sourcePath);
+        const xmlFiles = stat.isDirectory()
+          ? await this.collectFiles(sourcePath, '.xml', includeSubfolders)
+          : [sourcePath];
+
+        let totalCount = 0;
+        let successCount = 0;
+        const errors: string[] = [];
+        for (const file of xmlFiles) {
+          const xml = await fs.readFile(file, 'utf-8');
+          const blocks = this.splitMessageXml(xml);
+          for (const block of blocks) {
+            totalCount++;
+            try {
+              await this.mirthClient.importMessage(channelId, block);
+              successCount++;
+            } catch (error) {
+              if (errors.length < 10) {
+                errors.push(`${path.basename(file)}: ${error instanceof Error ? error.message : String(error)}`);
+              }
+            }
+          }
+        }
+
+        return {
+          status: successCount === totalCount ? 'imported' : 'partial',
+          source: 'local',
+          channelId,
+          path: path.resolve(sourcePath),
+          fileCount: xmlFiles.length,
+          totalCount,
+          successCount,
+          errors,
+        };
+      }
+
       // === Validation ===
       case 'mirth_validate_channel_xml': {
         const channelXml = args.channelXml as string;
@@ -1982,9 +6605,13 @@ class MirthConnectMCPServer {
           issues.push('Warning: Possible unencrypted password in configuration');
         }
 
+        // Port conflicts depend on the server's other channels, so they are only checked when connected
+        const warnings = this.isConnected ? await this.getPortConflictWarnings(channelXml) : [];
+
         return {
           valid: issues.length === 0,
           issues,
+          warnings: warnings.length > 0 ? warnings : undefined,
           xmlLength: channelXml.length,
         };
       }
@@ -2026,9 +6653,153 @@ class MirthConnectMCPServer {
           recommendations.push('Channel uses globalMap. Ensure proper cleanup to avoid memory issues.');
         }
 
+        // A deployed channel that is disabled or starts STOPPED won't come back up after a redeploy or restart
+        if (status.state !== 'UNKNOWN') {
+          let enabled = channel.enabled;
+          try {
+            const metadata = await this.mirthClient.getChannelMetadata();
+            enabled = metadata[channelId]?.enabled ?? channel.enabled;
+          } catch {
+            // Older servers have no channel metadata - use the channel's own flag
+          }
+          if (enabled === false || String(enabled) === 'false') {
+            recommendations.push('Channel is deployed but disabled. It will not be redeployed after a server restart or redeploy all.');
+          }
+          if (this.getChannelInitialState(channelXml) === 'STOPPED') {
+            recommendations.push('Channel is deployed with initial state STOPPED. It will not process messages after a redeploy until started manually.');
+          }
+        }
+
         return analysis;
       }
 
+      case 'mirth_test_connector': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const channelXml = await this.mirthClient.getChannelXml(channelId);
+        const channel = await this.mirthClient.getChannel(channelId) as Record<string, string>;
+        const channelName = channel.name || channelId;
+        const connectors = this.extractConnectors(channelXml);
+
+        let connector;
+        if (args.metaDataId !== undefined) {
+          connector = connectors.find(c => c.metaDataId === Number(args.metaDataId));
+        } else if (args.connectorName) {
+          const wanted = String(args.connectorName).toLowerCase();
+          connector = connectors.find(c => c.name.toLowerCase() === wanted);
+        } else {
+          throw new Error('Either metaDataId or connectorName is required');
+        }
+        if (!connector) {
+          throw new Error(`Connector not found. Available: ${connectors.map(c => `${c.metaDataId}: ${c.name}`).join(', ')}`);
+        }
+
+        const testPath = CONNECTOR_TESTS[connector.propertiesClass];
+        if (!testPath) {
+          throw new Error(`No connection test available for ${connector.transportName || connector.propertiesClass}`);
+        }
+        const result = {
+          channelId,
+          metaDataId: connector.metaDataId,
+          connectorName: connector.name,
+          transportName: connector.transportName,
+          test: testPath,
+        };
+
+        if (testPath === 'jdbc/_getTables') {
+          const field = (tag: string) => unescapeXml(connector.propertiesXml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1] || '');
+          const resourceIdsXml = connector.propertiesXml.match(/<resourceIds[^>]*>([\s\S]*?)<\/resourceIds>/)?.[1] || '';
+          const tables = await this.mirthClient.getDatabaseTables(channelId, channelName, {
+            driver: field('driver'),
+            url: field('url'),
+            username: field('username'),
+            password: field('password'),
+            tableNamePattern: args.tableNamePattern ? [args.tableNamePattern as string] : undefined,
+            resourceIds: [...resourceIdsXml.matchAll(/<entry>\s*<string>([^<]*)<\/string>/g)].map(m => m[1]),
+          });
+          const tableArray = (Array.isArray(tables) ? tables : [tables]) as Record<string, unknown>[];
+          const tableNames = tableArray.filter(t => t && t.name).map(t => t.name as string);
+          return { ...result, status: 'SUCCESS', tableCount: tableNames.length, tables: tableNames };
+        }
+
+        let propertiesXml = connector.propertiesXml;
+        if (testPath === 'smtp/_sendTestEmail') {
+          if (args.testEmailTo) {
+            propertiesXml = propertiesXml.replace(/<to>[^<]*<\/to>/, () => `<to>${escapeXml(args.testEmailTo as string)}</to>`);
+          }
+          if (this.config.requireConfirmation && !args.confirmationToken) {
+            return {
+              ...result,
+              status: 'confirmation_required',
+              message: 'The SMTP test sends a real email. Confirm to send it.',
+              action: 'test_connector',
+              recipients: unescapeXml(propertiesXml.match(/<to>([^<]*)<\/to>/)?.[1] || ''),
+              confirmationToken: this.generateConfirmationToken(),
+            };
+          }
+        }
+        const response = await this.mirthClient.testConnector(testPath, channelId, channelName, propertiesXml);
+        return {
+          ...result,
+          status: response.type,
+          message: response.message,
+          connectionInfo: response.connectionInfo,
+        };
+      }
+
+      // === Web Service (WSDL) ===
+      case 'mirth_get_wsdl_definition': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const wsdl = {
+          wsdlUrl: args.wsdlUrl as string,
+          username: args.username as string | undefined,
+          password: args.password as string | undefined,
+        };
+        await this.ensureWsdlCached(channelId, wsdl, args.refreshCache === true);
+        const services = this.parseWsdlDefinition(await this.mirthClient.getWsdlDefinition(channelId, wsdl));
+        return { wsdlUrl: wsdl.wsdlUrl, services };
+      }
+
+      case 'mirth_generate_soap_envelope': {
+        await this.ensureConnected();
+        const channelId = args.channelId as string;
+        const wsdl = {
+          wsdlUrl: args.wsdlUrl as string,
+          username: args.username as string | undefined,
+          password: args.password as string | undefined,
+        };
+        const operationName = args.operation as string;
+        await this.ensureWsdlCached(channelId, wsdl, false);
+        const services = this.parseWsdlDefinition(await this.mirthClient.getWsdlDefinition(channelId, wsdl));
+
+        const candidates = services.flatMap(s => s.ports.map(p => ({ service: s.service, ...p })))
+          .filter(p => (!args.service || p.service === args.service) && (!args.port || p.port === args.port))
+          .filter(p => p.operations.some(o => o.operation === operationName));
+        if (candidates.length === 0) {
+          const available = [...new Set(services.flatMap(s => s.ports.flatMap(p => p.operations.map(o => o.operation))))];
+          throw new Error(`Operation "${operationName}" not found in the WSDL. Available operations: ${available.join(', ')}`);
+        }
+        const target = candidates[0];
+        const operation = { service: target.service, port: target.port, operation: operationName };
+
+        const envelope = await this.mirthClient.generateEnvelope(channelId, wsdl, operation, args.buildOptional === true);
+        const soapAction = await this.mirthClient.getSoapAction(channelId, wsdl, operation);
+
+        return {
+          wsdlUrl: wsdl.wsdlUrl,
+          service: operation.service,
+          port: operation.port,
+          operation: operationName,
+          locationURI: target.locationURI,
+          soapAction,
+          envelope,
+          otherMatches: candidates.length > 1
+            ? candidates.slice(1).map(c => `${c.service}/${c.port}`)
+            : undefined,
+        };
+      }
+
       // === Safety ===
       case 'mirth_confirm_action': {
         const token = args.confirmationToken as string;
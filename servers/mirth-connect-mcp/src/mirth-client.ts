@@ -20,6 +20,15 @@ export interface ChannelStatus {
   deployedDate?: string;
 }
 
+// Listener port claimed by a channel's source connector
+export interface PortInUse {
+  id: string; // Channel ID
+  name: string; // Channel name
+  port: string;
+}
+
+export type ChannelInitialState = 'STARTED' | 'PAUSED' | 'STOPPED';
+
 export interface ChannelStatistics {
   channelId: string;
   received: number;
@@ -64,6 +73,14 @@ export interface MessageSearchResult {
   receivedDate: string;
   processed: boolean;
   connectorMessages?: ConnectorMessage[];
+  attachments?: Attachment[];
+}
+
+export interface Attachment {
+  id: string;
+  type: string; // MIME type
+  content?: string; // Base64 encoded
+  encrypted?: boolean;
 }
 
 export interface ConnectorMessage {
@@ -80,6 +97,114 @@ export interface ConnectorMessage {
   processingError?: string;
 }
 
+export interface ChannelGroup {
+  id: string;
+  name: string;
+  description?: string;
+  revision?: number;
+  channelIds: string[];
+}
+
+export interface ChannelDependency {
+  dependentId: string; // Channel that depends on dependencyId
+  dependencyId: string;
+}
+
+export interface ChannelTag {
+  id: string;
+  name: string;
+  channelIds: string[];
+  backgroundColor?: { red: number; green: number; blue: number; alpha: number };
+}
+
+export interface AlertStatus {
+  id: string;
+  name: string;
+  enabled: boolean;
+  alertedCount: number;
+}
+
+export interface DatabaseTask {
+  id: string;
+  status: 'IDLE' | 'RUNNING' | string;
+  name: string;
+  description: string;
+  confirmationMessage?: string;
+  affectedChannels: Record<string, string>; // channel ID -> channel name
+  startDateTime?: string;
+}
+
+export interface User {
+  id: number;
+  username: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  organization?: string;
+  description?: string;
+  phoneNumber?: string;
+  industry?: string;
+  role?: string;
+  country?: string;
+  stateTerritory?: string;
+  lastLogin?: unknown;
+  gracePeriodStart?: unknown;
+  strikeCount?: number;
+  lastStrikeTime?: unknown;
+  userConsent?: boolean;
+}
+
+// Editable user fields, in the order XStream serializes them
+export const USER_FIELDS = [
+  'username', 'email', 'firstName', 'lastName', 'organization', 'description',
+  'phoneNumber', 'industry', 'country', 'stateTerritory', 'role',
+] as const;
+
+export interface PasswordRequirements {
+  minLength: number;
+  minUpper: number;
+  minLower: number;
+  minNumeric: number;
+  minSpecial: number;
+  retryLimit: number;
+  lockoutPeriod: number;
+  expiration: number;
+  gracePeriod: number;
+  reusePeriod: number;
+  reuseLimit: number;
+}
+
+export interface SystemStats {
+  timestamp?: unknown;
+  cpuUsagePct: number;
+  allocatedMemoryBytes: number;
+  freeMemoryBytes: number;
+  maxMemoryBytes: number;
+  diskFreeBytes: number;
+  diskTotalBytes: number;
+}
+
+export interface SystemInfo {
+  jvmVersion?: string;
+  osName?: string;
+  osVersion?: string;
+  osArchitecture?: string;
+  dbName?: string;
+  dbVersion?: string;
+}
+
+export interface ExtensionInfo {
+  name: string;
+  kind: 'connector' | 'plugin';
+  type?: 'SOURCE' | 'DESTINATION'; // Connectors only
+  protocol?: string;
+  pluginVersion?: string;
+  mirthVersion?: string;
+  author?: string;
+  description?: string;
+  path?: string;
+}
+
 export interface ServerLogItem {
   id: number;
   serverId: string;
@@ -100,6 +225,96 @@ export interface ConnectionLogItem {
   dateCreated: string;
 }
 
+// Content type codes used by MessageFilter content searches (com.mirth.connect.donkey.model.message.ContentType)
+export const CONTENT_TYPE_CODES: Record<string, number> = {
+  RAW: 1,
+  PROCESSED_RAW: 2,
+  TRANSFORMED: 3,
+  ENCODED: 4,
+  SENT: 5,
+  RESPONSE: 6,
+  RESPONSE_TRANSFORMED: 7,
+  PROCESSED_RESPONSE: 8,
+  CONNECTOR_MAP: 9,
+  CHANNEL_MAP: 10,
+  RESPONSE_MAP: 11,
+  PROCESSING_ERROR: 12,
+  POSTPROCESSOR_ERROR: 13,
+  RESPONSE_ERROR: 14,
+  SOURCE_MAP: 15
+};
+
+export interface ContentSearchElement {
+  contentType: string; // Key of CONTENT_TYPE_CODES
+  searches: string[];
+}
+
+export interface MetaDataSearchElement {
+  columnName: string;
+  operator: string; // EQUAL, NOT_EQUAL, CONTAINS, STARTS_WITH, GREATER_THAN, ...
+  value: string | number | boolean;
+  ignoreCase?: boolean;
+}
+
+export interface MessageFilter {
+  minMessageId?: number;
+  maxMessageId?: number;
+  startDate?: string;
+  endDate?: string;
+  textSearch?: string;
+  textSearchRegex?: boolean;
+  textSearchMetaDataColumns?: string[];
+  statuses?: string[];
+  includedMetaDataIds?: number[];
+  excludedMetaDataIds?: number[];
+  serverId?: string;
+  contentSearch?: ContentSearchElement[];
+  metaDataSearch?: MetaDataSearchElement[];
+  attachment?: boolean;
+  error?: boolean;
+}
+
+export interface MessageWriterOptions {
+  rootFolder: string;
+  filePattern: string;
+  contentType?: string; // Content type enum name (RAW, ENCODED, ...) - omit to write serialized messages
+  destinationContent?: boolean;
+  encrypt?: boolean;
+  includeAttachments?: boolean;
+  archiveFileName?: string;
+  archiveFormat?: 'zip' | 'tar';
+  compressFormat?: 'gz' | 'bzip2';
+}
+
+export interface WsdlLocation {
+  wsdlUrl: string;
+  username?: string;
+  password?: string;
+}
+
+export interface WsdlOperation {
+  service: string;
+  port: string;
+  operation: string;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
 export class MirthClient {
   private client: AxiosInstance;
   private sessionCookie: string | null = null;
@@ -152,6 +367,166 @@ export class MirthClient {
     throw new Error(`${context}: ${error}`);
   }
 
+  // Endpoints returning a single long may answer with a number, { long: n } or plain text
+  private parseLong(data: unknown): number {
+    if (typeof data === 'number') return data;
+    if (data && typeof data === 'object' && 'long' in data) {
+      return Number((data as Record<string, unknown>).long);
+    }
+    const match = String(data).match(/-?\d+/);
+    if (!match) {
+      throw new Error(`Unexpected response: ${JSON.stringify(data)}`);
+    }
+    return Number(match[0]);
+  }
+
+  // MessageFilter is sent as XML - the server's JSON mapping requires XStream-specific wrappers
+  private messageFilterToXml(filter: MessageFilter): string {
+    const parts: string[] = [];
+    const simple = (tag: string, value: unknown) => {
+      if (value !== undefined && value !== null) {
+        parts.push(`<${tag}>${escapeXml(String(value))}</${tag}>`);
+      }
+    };
+    const calendar = (tag: string, value?: string) => {
+      if (value) {
+        const time = new Date(value).getTime();
+        if (isNaN(time)) throw new Error(`Invalid date for ${tag}: ${value}`);
+        parts.push(`<${tag}><time>${time}</time><timezone>UTC</timezone></${tag}>`);
+      }
+    };
+    const intList = (tag: string, values?: number[]) => {
+      if (values && values.length > 0) {
+        parts.push(`<${tag}>${values.map(v => `<int>${v}</int>`).join('')}</${tag}>`);
+      }
+    };
+
+    simple('maxMessageId', filter.maxMessageId);
+    simple('minMessageId', filter.minMessageId);
+    calendar('startDate', filter.startDate);
+    calendar('endDate', filter.endDate);
+    simple('textSearch', filter.textSearch);
+    simple('textSearchRegex', filter.textSearchRegex);
+    if (filter.textSearchMetaDataColumns && filter.textSearchMetaDataColumns.length > 0) {
+      parts.push(`<textSearchMetaDataColumns>${filter.textSearchMetaDataColumns.map(c => `<string>${escapeXml(c)}</string>`).join('')}</textSearchMetaDataColumns>`);
+    }
+    if (filter.statuses && filter.statuses.length > 0) {
+      parts.push(`<statuses>${filter.statuses.map(s => `<status>${escapeXml(s)}</status>`).join('')}</statuses>`);
+    }
+    intList('includedMetaDataIds', filter.includedMetaDataIds);
+    intList('excludedMetaDataIds', filter.excludedMetaDataIds);
+    simple('serverId', filter.serverId);
+    if (filter.contentSearch && filter.contentSearch.length > 0) {
+      const elements = filter.contentSearch.map(cs => {
+        const code = CONTENT_TYPE_CODES[cs.contentType];
+        if (!code) throw new Error(`Unknown content type: ${cs.contentType}`);
+        const searches = cs.searches.map(s => `<string>${escapeXml(s)}</string>`).join('');
+        return `<contentSearchElement><contentCode>${code}</contentCode><searches>${searches}</searches></contentSearchElement>`;
+      });
+      parts.push(`<contentSearch>${elements.join('')}</contentSearch>`);
+    }
+    if (filter.metaDataSearch && filter.metaDataSearch.length > 0) {
+      const elements = filter.metaDataSearch.map(ms => {
+        const valueClass = typeof ms.value === 'number' ? 'big-decimal' : typeof ms.value === 'boolean' ? 'boolean' : 'string';
+        return '<metaDataSearchElement>' +
+          `<columnName>${escapeXml(ms.columnName)}</columnName>` +
+          `<operator>${escapeXml(ms.operator)}</operator>` +
+          `<value class="${valueClass}">${escapeXml(String(ms.value))}</value>` +
+          `<ignoreCase>${ms.ignoreCase ?? true}</ignoreCase>` +
+          '</metaDataSearchElement>';
+      });
+      parts.push(`<metaDataSearch>${elements.join('')}</metaDataSearch>`);
+    }
+    simple('attachment', filter.attachment);
+    simple('error', filter.error);
+
+    return `<messageFilter>${parts.join('')}</messageFilter>`;
+  }
+
+  // Form body shared by the WSDL endpoints
+  private wsdlForm(channelId: string, wsdl: WsdlLocation, operation?: WsdlOperation): URLSearchParams {
+    const form = new URLSearchParams();
+    form.append('channelId', channelId);
+    form.append('wsdlUrl', wsdl.wsdlUrl);
+    if (wsdl.username) form.append('username', wsdl.username);
+    if (wsdl.password) form.append('password', wsdl.password);
+    if (operation) {
+      form.append('service', operation.service);
+      form.append('port', operation.port);
+      form.append('operation', operation.operation);
+    }
+    return form;
+  }
+
+  // DatabaseTask maps (affectedChannels, the task list) come as XStream { entry } wrappers in JSON
+  private parseDatabaseTask(raw: Record<string, unknown>): DatabaseTask {
+    const affected = raw.affectedChannels as Record<string, unknown> | undefined;
+    const affectedChannels: Record<string, string> = {};
+    const entries = affected?.entry ?? (affected?.map as Record<string, unknown> | undefined)?.entry;
+    if (entries !== undefined) {
+      for (const entry of [entries].flat() as Record<string, unknown>[]) {
+        const pair = entry?.string;
+        if (Array.isArray(pair)) affectedChannels[String(pair[0])] = String(pair[1] ?? '');
+      }
+    } else if (affected && typeof affected === 'object') {
+      Object.assign(affectedChannels, affected);
+    }
+    const start = raw.startDateTime as Record<string, unknown> | string | undefined;
+    return {
+      id: String(raw.id),
+      status: String(raw.status ?? ''),
+      name: String(raw.name ?? ''),
+      description: String(raw.description ?? ''),
+      confirmationMessage: raw.confirmationMessage as string | undefined,
+      affectedChannels,
+      startDateTime: start && typeof start === 'object' && start.time !== undefined
+        ? new Date(Number(start.time)).toISOString()
+        : start as string | undefined,
+    };
+  }
+
+  private channelIdSetXml(channelIds: string[]): string {
+    return '<set>' + channelIds.map(id => `<string>${escapeXml(id)}</string>`).join('') + '</set>';
+  }
+
+  private userToXml(user: Partial<User>): string {
+    return '<user>' +
+      (user.id !== undefined ? `<id>${user.id}</id>` : '') +
+      USER_FIELDS.filter(field => user[field] !== undefined && user[field] !== null)
+        .map(field => `<${field}>${escapeXml(String(user[field]))}</${field}>`).join('') +
+      '</user>';
+  }
+
+  // Password policy violations come back as a string list; empty means accepted
+  private parseStringList(data: unknown): string[] {
+    const list = (data as Record<string, Record<string, unknown>> | undefined)?.list?.string ?? data ?? [];
+    return [list].flat().filter((item): item is string => typeof item === 'string' && item.length > 0);
+  }
+
+  // Extension metadata maps are keyed by name: { map: { entry: [{ string, connectorMetaData | pluginMetaData }] } }
+  private parseExtensionMap(data: unknown, kind: ExtensionInfo['kind']): ExtensionInfo[] {
+    const root = (data || {}) as Record<string, unknown>;
+    const entries = (root.map as Record<string, unknown> | undefined)?.entry;
+    const pairs: [string, Record<string, unknown>][] = entries !== undefined
+      ? ([entries].flat() as Record<string, unknown>[]).map(entry => [
+        String(entry.string),
+        (Object.entries(entry).find(([key]) => key !== 'string')?.[1] || {}) as Record<string, unknown>
+      ])
+      : Object.entries(root) as [string, Record<string, unknown>][];
+
+    return pairs.map(([name, meta]) => ({
+      name,
+      kind,
+      type: meta.type as ExtensionInfo['type'],
+      protocol: meta.protocol as string | undefined,
+      pluginVersion: meta.pluginVersion as string | undefined,
+      mirthVersion: meta.mirthVersion as string | undefined,
+      author: meta.author as string | undefined,
+      description: meta.description as string | undefined,
+      path: meta.path as string | undefined,
+    }));
+  }
+
   // Authentication
   async login(): Promise<boolean> {
     try {
@@ -208,6 +583,89 @@ export class MirthClient {
     }
   }
 
+  async getServerJvm(): Promise<string> {
+    try {
+      const response = await this.client.get('/server/jvm', { headers: { 'Accept': 'text/plain' } });
+      return String(response.data);
+    } catch (error) {
+      this.handleError(error, 'Failed to get server JVM');
+    }
+  }
+
+  // About map: name, version, date, database, ... as XStream { entry: [{ string: [key, value] }] }
+  async getServerAbout(): Promise<Record<string, unknown>> {
+    try {
+      const response = await this.client.get('/server/about');
+      const entries = response.data?.map?.entry;
+      if (entries === undefined) return response.data || {};
+
+      const about: Record<string, unknown> = {};
+      for (const entry of [entries].flat() as Record<string, unknown>[]) {
+        const values = Object.values(entry || {}).flat();
+        if (values.length > 0) {
+          about[String(values[0])] = values.length > 2 ? values.slice(1) : values[1];
+        }
+      }
+      return about;
+    } catch (error) {
+      this.handleError(error, 'Failed to get server about information');
+    }
+  }
+
+  // Returns epoch milliseconds; the JSON form is an XStream calendar ({ 'gregorian-calendar': { time } })
+  async getServerTime(): Promise<number> {
+    try {
+      const response = await this.client.get('/server/time');
+      const data = response.data;
+      const calendar = data?.['gregorian-calendar'] ?? data?.calendar ?? data;
+      const time = typeof calendar === 'object' && calendar !== null ? calendar.time : calendar;
+      const millis = typeof time === 'number' || /^\d+$/.test(String(time)) ? Number(time) : Date.parse(String(time));
+      if (Number.isNaN(millis)) {
+        throw new Error(`Unrecognized server time: ${JSON.stringify(data)}`);
+      }
+      return millis;
+    } catch (error) {
+      this.handleError(error, 'Failed to get server time');
+    }
+  }
+
+  async getServerTimezone(): Promise<string> {
+    try {
+      const response = await this.client.get('/server/timezone', { headers: { 'Accept': 'text/plain' } });
+      return String(response.data);
+    } catch (error) {
+      this.handleError(error, 'Failed to get server timezone');
+    }
+  }
+
+  async getServerBuildDate(): Promise<string> {
+    try {
+      const response = await this.client.get('/server/buildDate', { headers: { 'Accept': 'text/plain' } });
+      return String(response.data);
+    } catch (error) {
+      this.handleError(error, 'Failed to get server build date');
+    }
+  }
+
+  // System (host resources)
+  async getSystemStats(): Promise<SystemStats> {
+    try {
+      const response = await this.client.get('/system/stats');
+      return response.data?.['com.mirth.connect.model.SystemStats'] || response.data?.systemStats || response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get system stats');
+    }
+  }
+
+  async getSystemInfo(): Promise<SystemInfo> {
+    try {
+      const response = await this.client.get('/system/info');
+      return response.data?.['com.mirth.connect.model.SystemInfo'] || response.data?.systemInfo || response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get system info');
+    }
+  }
+
   // Channel Operations
   async getChannels(): Promise<Channel[]> {
     try {
@@ -218,6 +676,18 @@ export class MirthClient {
     }
   }
 
+  // Returns <list><channel>...</channel></list> with every channel's full configuration
+  async getChannelsXml(): Promise<string> {
+    try {
+      const response = await this.client.get('/channels', {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get channels XML');
+    }
+  }
+
   async getChannel(channelId: string): Promise<Record<string, unknown>> {
     try {
       const response = await this.client.get(`/channels/${channelId}`);
@@ -344,206 +814,612 @@ export class MirthClient {
     }
   }
 
-  // Channel Statistics
-  async getChannelStatistics(): Promise<ChannelStatistics[]> {
+  // Forcefully stops a channel that does not respond to a normal stop
+  async haltChannel(channelId: string): Promise<boolean> {
     try {
-      const response = await this.client.get('/channels/statistics');
-      return response.data?.list?.channelStatistics || response.data || [];
+      const response = await this.client.post(`/channels/${channelId}/_halt`);
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, 'Failed to get channel statistics');
+      this.handleError(error, `Failed to halt channel ${channelId}`);
     }
   }
 
-  async getChannelStatistic(channelId: string): Promise<ChannelStatistics> {
+  async getPortsInUse(): Promise<PortInUse[]> {
     try {
-      const response = await this.client.get(`/channels/${channelId}/statistics`);
-      return response.data;
+      const response = await this.client.get('/channels/portsInUse');
+      const list = response.data?.list;
+      const ports = list && typeof list === 'object' ? Object.values(list)[0] : response.data;
+      return [ports ?? []].flat().filter(Boolean) as PortInUse[];
     } catch (error) {
-      this.handleError(error, `Failed to get channel statistics ${channelId}`);
+      this.handleError(error, 'Failed to get ports in use');
     }
   }
 
-  async clearChannelStatistics(channelId: string): Promise<boolean> {
+  async setChannelEnabled(channelId: string, enabled: boolean): Promise<boolean> {
     try {
-      const response = await this.client.delete(`/channels/${channelId}/statistics`);
+      const response = await this.client.post(`/channels/${channelId}/enabled/${enabled}`);
       return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to clear channel statistics ${channelId}`);
+      this.handleError(error, `Failed to ${enabled ? 'enable' : 'disable'} channel ${channelId}`);
     }
   }
 
-  // Code Templates
-  async getCodeTemplateLibraries(): Promise<CodeTemplateLibrary[]> {
+  // The state a channel is put in when it is deployed
+  async setChannelInitialState(channelId: string, initialState: ChannelInitialState): Promise<boolean> {
     try {
-      const response = await this.client.get('/codeTemplateLibraries');
-      return response.data?.list?.codeTemplateLibrary || response.data || [];
+      const response = await this.client.post(`/channels/${channelId}/initialState/${initialState}`);
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, 'Failed to get code template libraries');
+      this.handleError(error, `Failed to set initial state of channel ${channelId}`);
     }
   }
 
-  async getCodeTemplateLibrary(libraryId: string): Promise<CodeTemplateLibrary> {
+  // Batch Channel Operations
+  // returnErrors makes the server fail the request instead of only logging deploy errors
+  async deployChannels(channelIds: string[]): Promise<boolean> {
     try {
-      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`);
-      return response.data;
+      const response = await this.client.post('/channels/_deploy', this.channelIdSetXml(channelIds), {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { returnErrors: true },
+        timeout: 300000
+      });
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to get code template library ${libraryId}`);
+      this.handleError(error, `Failed to deploy ${channelIds.length} channel(s)`);
     }
   }
 
-  async getCodeTemplateLibraryXml(libraryId: string): Promise<string> {
+  async undeployChannels(channelIds: string[]): Promise<boolean> {
     try {
-      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`, {
-        headers: { 'Accept': 'application/xml' }
+      const response = await this.client.post('/channels/_undeploy', this.channelIdSetXml(channelIds), {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { returnErrors: true },
+        timeout: 300000
       });
-      return response.data;
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to get code template library XML ${libraryId}`);
+      this.handleError(error, `Failed to undeploy ${channelIds.length} channel(s)`);
     }
   }
 
-  async updateCodeTemplateLibraries(librariesXml: string, override: boolean = false): Promise<boolean> {
+  async controlChannels(action: 'start' | 'stop' | 'pause' | 'resume' | 'halt', channelIds: string[]): Promise<boolean> {
     try {
-      const response = await this.client.put('/codeTemplateLibraries', librariesXml, {
-        headers: { 'Content-Type': 'application/xml' },
-        params: { override }
+      const form = new URLSearchParams();
+      channelIds.forEach(id => form.append('channelId', id));
+      const response = await this.client.post(`/channels/_${action}`, form, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        params: { returnErrors: true },
+        timeout: 300000
       });
       return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, 'Failed to update code template libraries');
+      this.handleError(error, `Failed to ${action} ${channelIds.length} channel(s)`);
     }
   }
 
-  async getCodeTemplates(): Promise<CodeTemplate[]> {
+  async redeployAllChannels(): Promise<boolean> {
     try {
-      const response = await this.client.get('/codeTemplates');
-      return response.data?.list?.codeTemplate || response.data || [];
+      const response = await this.client.post('/channels/_redeployAll', null, {
+        params: { returnErrors: true },
+        timeout: 300000
+      });
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, 'Failed to get code templates');
+      this.handleError(error, 'Failed to redeploy all channels');
     }
   }
 
-  async getCodeTemplate(templateId: string): Promise<Record<string, unknown>> {
+  async setChannelsEnabled(channelIds: string[], enabled: boolean): Promise<boolean> {
     try {
-      const response = await this.client.get(`/codeTemplates/${templateId}`);
-      return response.data;
+      const form = new URLSearchParams();
+      channelIds.forEach(id => form.append('channelId', id));
+      form.append('enabled', String(enabled));
+      const response = await this.client.post('/channels/_setEnabled', form, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to get code template ${templateId}`);
+      this.handleError(error, `Failed to ${enabled ? 'enable' : 'disable'} ${channelIds.length} channel(s)`);
     }
   }
 
-  async getCodeTemplateXml(templateId: string): Promise<string> {
+  async setChannelsInitialState(channelIds: string[], initialState: ChannelInitialState): Promise<boolean> {
     try {
-      const response = await this.client.get(`/codeTemplates/${templateId}`, {
-        headers: { 'Accept': 'application/xml' }
+      const form = new URLSearchParams();
+      channelIds.forEach(id => form.append('channelId', id));
+      form.append('initialState', initialState);
+      const response = await this.client.post('/channels/_setInitialState', form, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
       });
-      return response.data;
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to get code template XML ${templateId}`);
+      this.handleError(error, `Failed to set initial state of ${channelIds.length} channel(s)`);
     }
   }
 
-  // Update a single code template (does NOT affect other templates)
-  async updateCodeTemplate(templateId: string, templateXml: string, override: boolean = true): Promise<boolean> {
+  // Connector Operations
+  // Returns metaDataId -> connector name (0 is the source connector)
+  async getConnectorNames(channelId: string): Promise<Record<string, string>> {
     try {
-      const response = await this.client.put(`/codeTemplates/${templateId}`, templateXml, {
-        headers: { 'Content-Type': 'application/xml' },
-        params: { override }
-      });
+      const response = await this.client.get(`/channels/${channelId}/connectorNames`);
+      const entries = response.data?.map?.entry;
+      if (entries === undefined) {
+        return response.data || {};
+      }
+      const names: Record<string, string> = {};
+      for (const entry of [entries].flat()) {
+        if (entry && entry.int !== undefined) {
+          names[String(entry.int)] = String(entry.string ?? '');
+        }
+      }
+      return names;
+    } catch (error) {
+      this.handleError(error, `Failed to get connector names for channel ${channelId}`);
+    }
+  }
+
+  async startConnector(channelId: string, metaDataId: number): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/connector/${metaDataId}/_start`);
       return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to update code template ${templateId}`);
+      this.handleError(error, `Failed to start connector ${metaDataId} of channel ${channelId}`);
     }
   }
 
-  // Get library with full code templates included
-  async getCodeTemplateLibraryFull(libraryId: string): Promise<CodeTemplateLibrary> {
+  async stopConnector(channelId: string, metaDataId: number): Promise<boolean> {
     try {
-      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`, {
-        params: { includeCodeTemplates: true }
-      });
-      return response.data;
+      const response = await this.client.post(`/channels/${channelId}/connector/${metaDataId}/_stop`);
+      return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to get code template library ${libraryId}`);
+      this.handleError(error, `Failed to stop connector ${metaDataId} of channel ${channelId}`);
     }
   }
 
-  async getCodeTemplateLibraryFullXml(libraryId: string): Promise<string> {
+  // Connector Tests
+  // testPath is relative to /connectors (e.g. tcp/_testConnection); propertiesXml uses the properties class as root element
+  async testConnector(testPath: string, channelId: string, channelName: string, propertiesXml: string): Promise<Record<string, unknown>> {
     try {
-      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`, {
-        headers: { 'Accept': 'application/xml' },
-        params: { includeCodeTemplates: true }
+      const response = await this.client.post(`/connectors/${testPath}`, propertiesXml, {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { channelId, channelName }
       });
-      return response.data;
+      const data = response.data || {};
+      // The ConnectionTestResponse may be wrapped in its class name
+      const wrapper = Object.keys(data).find(key => key.endsWith('ConnectionTestResponse'));
+      return wrapper ? data[wrapper] : data;
     } catch (error) {
-      this.handleError(error, `Failed to get code template library XML ${libraryId}`);
+      this.handleError(error, `Failed to run connector test ${testPath}`);
     }
   }
 
-  // Get ALL libraries (needed for safe update)
-  async getAllCodeTemplateLibrariesXml(includeCodeTemplates: boolean = true): Promise<string> {
+  async getDatabaseTables(channelId: string, channelName: string, connection: {
+    driver: string;
+    url: string;
+    username?: string;
+    password?: string;
+    tableNamePattern?: string[];
+    resourceIds?: string[];
+  }): Promise<unknown[]> {
     try {
-      const response = await this.client.get('/codeTemplateLibraries', {
-        headers: { 'Accept': 'application/xml' },
-        params: { includeCodeTemplates }
+      const response = await this.client.post('/connectors/jdbc/_getTables', null, {
+        params: {
+          channelId,
+          channelName,
+          driver: connection.driver,
+          url: connection.url,
+          username: connection.username || '',
+          password: connection.password || '',
+          tableNamePattern: connection.tableNamePattern,
+          resourceId: connection.resourceIds
+        },
+        paramsSerializer: { indexes: null }
       });
-      return response.data;
+      return response.data?.set?.table || response.data || [];
     } catch (error) {
-      this.handleError(error, 'Failed to get all code template libraries XML');
+      this.handleError(error, 'Failed to get database tables');
     }
   }
 
-  // DANGEROUS: Replaces ALL libraries - use updateCodeTemplate for individual updates
-  async updateAllCodeTemplateLibraries(librariesXml: string, override: boolean = true): Promise<boolean> {
+  // Web Service (WSDL) helpers - the definition, SOAP action and envelope endpoints read from the server-side WSDL cache
+  async cacheWsdlFromUrl(channelId: string, wsdl: WsdlLocation): Promise<boolean> {
     try {
-      const response = await this.client.put('/codeTemplateLibraries', librariesXml, {
+      const propertiesXml = '<com.mirth.connect.connectors.ws.WebServiceDispatcherProperties>' +
+        `<wsdlUrl>${escapeXml(wsdl.wsdlUrl)}</wsdlUrl>` +
+        `<useAuthentication>${Boolean(wsdl.username)}</useAuthentication>` +
+        `<username>${escapeXml(wsdl.username || '')}</username>` +
+        `<password>${escapeXml(wsdl.password || '')}</password>` +
+        '</com.mirth.connect.connectors.ws.WebServiceDispatcherProperties>';
+      const response = await this.client.post('/connectors/ws/_cacheWsdlFromUrl', propertiesXml, {
         headers: { 'Content-Type': 'application/xml' },
-        params: { override }
+        params: { channelId }
       });
       return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, 'Failed to update code template libraries');
+      this.handleError(error, `Failed to cache WSDL from ${wsdl.wsdlUrl}`);
     }
   }
 
-  // Events/Logs
-  async getEvents(params?: {
-    maxEventId?: number;
-    minEventId?: number;
-    level?: string;
-    startDate?: string;
-    endDate?: string;
-    name?: string;
-    outcome?: string;
-    userId?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<ServerEvent[]> {
+  async isWsdlCached(channelId: string, wsdl: WsdlLocation): Promise<boolean> {
     try {
-      const response = await this.client.get('/events', { params });
-      return response.data?.list?.serverEvent || response.data || [];
+      const response = await this.client.post('/connectors/ws/_isWsdlCached', this.wsdlForm(channelId, wsdl), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+      return response.data === true || response.data === 'true' || response.data?.boolean === true;
     } catch (error) {
-      this.handleError(error, 'Failed to get events');
+      this.handleError(error, `Failed to check WSDL cache for ${wsdl.wsdlUrl}`);
     }
   }
 
-  async getEventCount(params?: {
-    level?: string;
-    startDate?: string;
-    endDate?: string;
-    name?: string;
-    outcome?: string;
-    userId?: string;
-  }): Promise<number> {
+  // Returns the raw DefinitionServiceMap (service -> port -> operations/actions/locationURI)
+  async getWsdlDefinition(channelId: string, wsdl: WsdlLocation): Promise<Record<string, unknown>> {
     try {
-      const response = await this.client.get('/events/_count', { params });
-      return response.data;
+      const response = await this.client.post('/connectors/ws/_getDefinition', this.wsdlForm(channelId, wsdl), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+      const data = response.data || {};
+      const wrapper = Object.keys(data).find(key => key.endsWith('DefinitionServiceMap'));
+      return wrapper ? data[wrapper] : data;
     } catch (error) {
-      this.handleError(error, 'Failed to get event count');
+      this.handleError(error, `Failed to get WSDL definition for ${wsdl.wsdlUrl}`);
     }
   }
 
-  // Messages
+  async getSoapAction(channelId: string, wsdl: WsdlLocation, operation: WsdlOperation): Promise<string> {
+    try {
+      const form = this.wsdlForm(channelId, wsdl, operation);
+      const response = await this.client.post('/connectors/ws/_getSoapAction', form, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'text/plain' }
+      });
+      return String(response.data ?? '');
+    } catch (error) {
+      this.handleError(error, `Failed to get SOAP action for ${operation.operation}`);
+    }
+  }
+
+  async generateEnvelope(channelId: string, wsdl: WsdlLocation, operation: WsdlOperation, buildOptional: boolean = false): Promise<string> {
+    try {
+      const form = this.wsdlForm(channelId, wsdl, operation);
+      form.append('buildOptional', String(buildOptional));
+      const response = await this.client.post('/connectors/ws/_generateEnvelope', form, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'text/plain' }
+      });
+      return String(response.data ?? '');
+    } catch (error) {
+      this.handleError(error, `Failed to generate envelope for ${operation.operation}`);
+    }
+  }
+
+  // Channel Statistics
+  // includeMetadataIds narrows the counters to those connectors (0 = source)
+  async getChannelStatistics(params?: {
+    channelIds?: string[];
+    includeUndeployed?: boolean;
+    includeMetadataIds?: number[];
+    excludeMetadataIds?: number[];
+    aggregateStats?: boolean;
+  }): Promise<ChannelStatistics[]> {
+    try {
+      const response = await this.client.get('/channels/statistics', {
+        params: params && {
+          channelId: params.channelIds,
+          includeUndeployed: params.includeUndeployed,
+          includeMetadataId: params.includeMetadataIds,
+          excludeMetadataId: params.excludeMetadataIds,
+          aggregateStats: params.aggregateStats
+        },
+        paramsSerializer: { indexes: null }
+      });
+      return response.data?.list?.channelStatistics || response.data || [];
+    } catch (error) {
+      this.handleError(error, 'Failed to get channel statistics');
+    }
+  }
+
+  async getChannelStatistic(channelId: string): Promise<ChannelStatistics> {
+    try {
+      const response = await this.client.get(`/channels/${channelId}/statistics`);
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get channel statistics ${channelId}`);
+    }
+  }
+
+  // Clears the selected counters for channelId -> connector metaDataIds (null = the channel totals)
+  async clearStatistics(
+    connectors: Record<string, (number | null)[]>,
+    counters: { received: boolean; filtered: boolean; sent: boolean; error: boolean }
+  ): Promise<boolean> {
+    try {
+      const mapXml = '<map>' + Object.entries(connectors).map(([channelId, metaDataIds]) =>
+        `<entry><string>${escapeXml(channelId)}</string><list>` +
+        metaDataIds.map(id => id === null ? '<null/>' : `<int>${id}</int>`).join('') +
+        '</list></entry>'
+      ).join('') + '</map>';
+      const response = await this.client.post('/channels/_clearStatistics', mapXml, {
+        headers: { 'Content-Type': 'application/xml' },
+        params: counters
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to clear statistics');
+    }
+  }
+
+  // Clears every counter of every channel, including lifetime statistics
+  async clearAllStatistics(): Promise<boolean> {
+    try {
+      const response = await this.client.post('/channels/_clearAllStatistics');
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to clear all statistics');
+    }
+  }
+
+  // Code Templates
+  async getCodeTemplateLibraries(): Promise<CodeTemplateLibrary[]> {
+    try {
+      const response = await this.client.get('/codeTemplateLibraries');
+      return response.data?.list?.codeTemplateLibrary || response.data || [];
+    } catch (error) {
+      this.handleError(error, 'Failed to get code template libraries');
+    }
+  }
+
+  async getCodeTemplateLibrary(libraryId: string): Promise<CodeTemplateLibrary> {
+    try {
+      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`);
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get code template library ${libraryId}`);
+    }
+  }
+
+  async getCodeTemplateLibraryXml(libraryId: string): Promise<string> {
+    try {
+      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`, {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get code template library XML ${libraryId}`);
+    }
+  }
+
+  async updateCodeTemplateLibraries(librariesXml: string, override: boolean = false): Promise<boolean> {
+    try {
+      const response = await this.client.put('/codeTemplateLibraries', librariesXml, {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { override }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to update code template libraries');
+    }
+  }
+
+  async getCodeTemplates(): Promise<CodeTemplate[]> {
+    try {
+      const response = await this.client.get('/codeTemplates');
+      return response.data?.list?.codeTemplate || response.data || [];
+    } catch (error) {
+      this.handleError(error, 'Failed to get code templates');
+    }
+  }
+
+  async getCodeTemplate(templateId: string): Promise<Record<string, unknown>> {
+    try {
+      const response = await this.client.get(`/codeTemplates/${templateId}`);
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get code template ${templateId}`);
+    }
+  }
+
+  async getCodeTemplateXml(templateId: string): Promise<string> {
+    try {
+      const response = await this.client.get(`/codeTemplates/${templateId}`, {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get code template XML ${templateId}`);
+    }
+  }
+
+  // Update a single code template (does NOT affect other templates)
+  async updateCodeTemplate(templateId: string, templateXml: string, override: boolean = true): Promise<boolean> {
+    try {
+      const response = await this.client.put(`/codeTemplates/${templateId}`, templateXml, {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { override }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to update code template ${templateId}`);
+    }
+  }
+
+  // Get library with full code templates included
+  async getCodeTemplateLibraryFull(libraryId: string): Promise<CodeTemplateLibrary> {
+    try {
+      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`, {
+        params: { includeCodeTemplates: true }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get code template library ${libraryId}`);
+    }
+  }
+
+  async getCodeTemplateLibraryFullXml(libraryId: string): Promise<string> {
+    try {
+      const response = await this.client.get(`/codeTemplateLibraries/${libraryId}`, {
+        headers: { 'Accept': 'application/xml' },
+        params: { includeCodeTemplates: true }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get code template library XML ${libraryId}`);
+    }
+  }
+
+  // Get ALL libraries (needed for safe update)
+  async getAllCodeTemplateLibrariesXml(includeCodeTemplates: boolean = true): Promise<string> {
+    try {
+      const response = await this.client.get('/codeTemplateLibraries', {
+        headers: { 'Accept': 'application/xml' },
+        params: { includeCodeTemplates }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get all code template libraries XML');
+    }
+  }
+
+  // DANGEROUS: Replaces ALL libraries - use updateCodeTemplate for individual updates
+  async updateAllCodeTemplateLibraries(librariesXml: string, override: boolean = true): Promise<boolean> {
+    try {
+      const response = await this.client.put('/codeTemplateLibraries', librariesXml, {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { override }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to update code template libraries');
+    }
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    try {
+      const response = await this.client.get('/users');
+      const users = response.data?.list?.user ?? response.data ?? [];
+      return [users].flat().filter(Boolean);
+    } catch (error) {
+      this.handleError(error, 'Failed to get users');
+    }
+  }
+
+  async getUser(userIdOrName: string | number): Promise<User> {
+    try {
+      const response = await this.client.get(`/users/${encodeURIComponent(String(userIdOrName))}`);
+      return response.data?.user || response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get user ${userIdOrName}`);
+    }
+  }
+
+  async createUser(user: Partial<User>): Promise<boolean> {
+    try {
+      const response = await this.client.post('/users', this.userToXml(user), {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to create user ${user.username}`);
+    }
+  }
+
+  async updateUser(userId: number, user: Partial<User>): Promise<boolean> {
+    try {
+      const response = await this.client.put(`/users/${userId}`, this.userToXml({ ...user, id: userId }), {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to update user ${userId}`);
+    }
+  }
+
+  async deleteUser(userId: number): Promise<boolean> {
+    try {
+      const response = await this.client.delete(`/users/${userId}`);
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to delete user ${userId}`);
+    }
+  }
+
+  // Returns the password requirement violations; the password is only changed when the list is empty
+  async updateUserPassword(userId: number, password: string): Promise<string[]> {
+    try {
+      const response = await this.client.put(`/users/${userId}/password`, password, {
+        headers: { 'Content-Type': 'text/plain' }
+      });
+      return this.parseStringList(response.data);
+    } catch (error) {
+      this.handleError(error, `Failed to update password for user ${userId}`);
+    }
+  }
+
+  async checkUserPassword(password: string): Promise<string[]> {
+    try {
+      const response = await this.client.post('/users/_checkPassword', password, {
+        headers: { 'Content-Type': 'text/plain' }
+      });
+      return this.parseStringList(response.data);
+    } catch (error) {
+      this.handleError(error, 'Failed to check password');
+    }
+  }
+
+  async getPasswordRequirements(): Promise<PasswordRequirements> {
+    try {
+      const response = await this.client.get('/server/passwordRequirements');
+      return response.data?.passwordRequirements || response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get password requirements');
+    }
+  }
+
+  async isUserLoggedIn(userId: number): Promise<boolean> {
+    try {
+      const response = await this.client.get(`/users/${userId}/loggedIn`);
+      return response.data === true || response.data === 'true' || response.data?.boolean === true;
+    } catch (error) {
+      this.handleError(error, `Failed to get logged in state of user ${userId}`);
+    }
+  }
+
+  // Events/Logs
+  async getEvents(params?: {
+    maxEventId?: number;
+    minEventId?: number;
+    level?: string;
+    startDate?: string;
+    endDate?: string;
+    name?: string;
+    outcome?: string;
+    userId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<ServerEvent[]> {
+    try {
+      const response = await this.client.get('/events', { params });
+      return response.data?.list?.serverEvent || response.data || [];
+    } catch (error) {
+      this.handleError(error, 'Failed to get events');
+    }
+  }
+
+  async getEventCount(params?: {
+    level?: string;
+    startDate?: string;
+    endDate?: string;
+    name?: string;
+    outcome?: string;
+    userId?: string;
+  }): Promise<number> {
+    try {
+      const response = await this.client.get('/events/_count', { params });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get event count');
+    }
+  }
+
+  // Messages
   async getMessages(channelId: string, params?: {
     minMessageId?: number;
     maxMessageId?: number;
@@ -562,58 +1438,446 @@ export class MirthClient {
       const response = await this.client.get(`/channels/${channelId}/messages`, { params: cleanParams });
       return response.data?.list?.message || response.data || [];
     } catch (error) {
-      this.handleError(error, `Failed to get messages for channel ${channelId}`);
+      this.handleError(error, `Failed to get messages for channel ${channelId}`);
+    }
+  }
+
+  // Server-side search using the full MessageFilter model
+  async searchMessages(channelId: string, filter: MessageFilter, params?: {
+    includeContent?: boolean;
+    offset?: number;
+    limit?: number;
+  }): Promise<MessageSearchResult[]> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/messages/_search`, this.messageFilterToXml(filter), {
+        headers: { 'Content-Type': 'application/xml' },
+        params
+      });
+      return response.data?.list?.message || response.data || [];
+    } catch (error) {
+      this.handleError(error, `Failed to search messages for channel ${channelId}`);
+    }
+  }
+
+  async countMessages(channelId: string, filter: MessageFilter): Promise<number> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/messages/count/_search`, this.messageFilterToXml(filter), {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return this.parseLong(response.data);
+    } catch (error) {
+      this.handleError(error, `Failed to count messages for channel ${channelId}`);
+    }
+  }
+
+  async getMessage(channelId: string, messageId: number): Promise<MessageSearchResult> {
+    try {
+      const response = await this.client.get(`/channels/${channelId}/messages/${messageId}`);
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get message ${messageId} for channel ${channelId}`);
+    }
+  }
+
+  async getMessageContent(channelId: string, messageId: number, metaDataId: number): Promise<ConnectorMessage> {
+    try {
+      const response = await this.client.get(`/channels/${channelId}/messages/${messageId}/connectorMessages/${metaDataId}`);
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get message content for message ${messageId}`);
+    }
+  }
+
+  // Processes a new message through a channel - returns the new message ID
+  async sendMessage(channelId: string, content: string, params?: {
+    destinationMetaDataIds?: number[];
+    sourceMap?: Record<string, string>;
+  }): Promise<number> {
+    try {
+      const queryParams: Record<string, unknown> = {};
+      if (params?.destinationMetaDataIds && params.destinationMetaDataIds.length > 0) {
+        queryParams.destinationMetaDataId = params.destinationMetaDataIds;
+      }
+      if (params?.sourceMap) {
+        // API expects repeated sourceMapEntry=key=value parameters
+        queryParams.sourceMapEntry = Object.entries(params.sourceMap).map(([k, v]) => `${k}=${v}`);
+      }
+      const response = await this.client.post(`/channels/${channelId}/messages`, content, {
+        headers: { 'Content-Type': 'text/plain' },
+        params: queryParams,
+        paramsSerializer: { indexes: null }
+      });
+      return this.parseLong(response.data);
+    } catch (error) {
+      this.handleError(error, `Failed to send message to channel ${channelId}`);
+    }
+  }
+
+  async reprocessMessage(channelId: string, messageId: number, replace: boolean = false): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/messages/_reprocess`, null, {
+        params: { minMessageId: messageId, maxMessageId: messageId, replace }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to reprocess message ${messageId}`);
+    }
+  }
+
+  // Bulk reprocess by MessageFilter; metaDataIds restricts which destinations are re-sent to
+  async reprocessMessagesWithFilter(channelId: string, filter: MessageFilter, params?: {
+    replace?: boolean;
+    destinationMetaDataIds?: number[];
+  }): Promise<boolean> {
+    try {
+      const filterDestinations = !!params?.destinationMetaDataIds && params.destinationMetaDataIds.length > 0;
+      const response = await this.client.post(`/channels/${channelId}/messages/_reprocessWithFilter`, this.messageFilterToXml(filter), {
+        headers: { 'Content-Type': 'application/xml' },
+        params: {
+          replace: params?.replace ?? false,
+          filterDestinations,
+          metaDataId: filterDestinations ? params?.destinationMetaDataIds : undefined
+        },
+        paramsSerializer: { indexes: null }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to reprocess messages for channel ${channelId}`);
+    }
+  }
+
+  async clearMessages(channelId: string, params?: {
+    clearStatistics?: boolean;
+    restartRunningChannels?: boolean;
+  }): Promise<boolean> {
+    try {
+      const response = await this.client.delete(`/channels/${channelId}/messages`, { params });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to clear messages for channel ${channelId}`);
+    }
+  }
+
+  // Message Removal
+  async removeMessages(channelId: string, filter: MessageFilter): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/messages/_remove`, this.messageFilterToXml(filter), {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to remove messages for channel ${channelId}`);
+    }
+  }
+
+  async removeAllMessages(channelId: string, params?: {
+    clearStatistics?: boolean;
+    restartRunningChannels?: boolean;
+  }): Promise<boolean> {
+    try {
+      const response = await this.client.delete(`/channels/${channelId}/messages/_removeAll`, { params });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to remove all messages for channel ${channelId}`);
+    }
+  }
+
+  async removeAllMessagesForChannels(channelIds: string[], params?: {
+    clearStatistics?: boolean;
+    restartRunningChannels?: boolean;
+  }): Promise<boolean> {
+    try {
+      const response = await this.client.delete('/channels/_removeAllMessages', {
+        params: { channelId: channelIds, ...params },
+        paramsSerializer: { indexes: null }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to remove all messages for channels ${channelIds.join(', ')}`);
+    }
+  }
+
+  // Attachments
+  async getMessageAttachments(channelId: string, messageId: number, includeContent: boolean = false): Promise<Attachment[]> {
+    try {
+      const response = await this.client.get(`/channels/${channelId}/messages/${messageId}/attachments`, {
+        params: { includeContent }
+      });
+      return response.data?.list?.attachment || response.data || [];
+    } catch (error) {
+      this.handleError(error, `Failed to get attachments for message ${messageId}`);
+    }
+  }
+
+  async getMessageAttachment(channelId: string, messageId: number, attachmentId: string): Promise<Attachment> {
+    try {
+      const response = await this.client.get(`/channels/${channelId}/messages/${messageId}/attachments/${attachmentId}`);
+      return response.data?.attachment || response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get attachment ${attachmentId} for message ${messageId}`);
+    }
+  }
+
+  // Message Export/Import
+  // Returns the serialized <list><message>...</message></list> XML, suitable for _import
+  async searchMessagesXml(channelId: string, filter: MessageFilter, params?: {
+    offset?: number;
+    limit?: number;
+  }): Promise<string> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/messages/_search`, this.messageFilterToXml(filter), {
+        headers: { 'Content-Type': 'application/xml', 'Accept': 'application/xml' },
+        params: { includeContent: true, ...params }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to search messages XML for channel ${channelId}`);
+    }
+  }
+
+  // Writes messages to a directory on the Mirth server host - returns the number of exported messages
+  async exportMessagesUsingFilter(channelId: string, filter: MessageFilter, writerOptions: MessageWriterOptions, pageSize?: number): Promise<number> {
+    try {
+      const optionsXml = '<messageWriterOptions>' +
+        Object.entries(writerOptions)
+          .filter(([_, v]) => v !== undefined && v !== null)
+          .map(([k, v]) => `<${k}>${escapeXml(String(v))}</${k}>`)
+          .join('') +
+        '</messageWriterOptions>';
+
+      const form = new FormData();
+      form.append('filter', new Blob([this.messageFilterToXml(filter)], { type: 'application/xml' }));
+      form.append('writerOptions', new Blob([optionsXml], { type: 'application/xml' }));
+
+      const response = await this.client.post(`/channels/${channelId}/messages/_exportUsingFilter`, form, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        params: { pageSize }
+      });
+      return this.parseLong(response.data);
+    } catch (error) {
+      this.handleError(error, `Failed to export messages for channel ${channelId}`);
+    }
+  }
+
+  // Query-parameter variant of exportMessagesUsingFilter, for servers or proxies that reject the multipart upload
+  async exportMessages(channelId: string, filter: MessageFilter, writerOptions: MessageWriterOptions, pageSize?: number): Promise<number> {
+    try {
+      const operators: Record<string, string> = {
+        EQUAL: '=', NOT_EQUAL: '!=', LESS_THAN: '<', LESS_THAN_OR_EQUAL: '<=', GREATER_THAN: '>', GREATER_THAN_OR_EQUAL: '>='
+      };
+      const metaDataSearch = (ignoreCase: boolean) => filter.metaDataSearch
+        ?.filter(ms => (ms.ignoreCase ?? true) === ignoreCase)
+        .map(ms => `${ms.columnName} ${operators[ms.operator] || ms.operator.replace(/_/g, ' ')} ${ms.value}`);
+      // Content types are sent by display name here (PROCESSED_RAW -> "Processed Raw")
+      const displayName = (type: string) => type.toLowerCase().split('_').map(w => w[0].toUpperCase() + w.slice(1)).join(' ');
+
+      const params: Record<string, unknown> = {
+        minMessageId: filter.minMessageId,
+        maxMessageId: filter.maxMessageId,
+        startDate: filter.startDate,
+        endDate: filter.endDate,
+        textSearch: filter.textSearch,
+        textSearchRegex: filter.textSearchRegex,
+        textSearchMetaDataColumn: filter.textSearchMetaDataColumns,
+        status: filter.statuses,
+        includedMetaDataId: filter.includedMetaDataIds,
+        excludedMetaDataId: filter.excludedMetaDataIds,
+        serverId: filter.serverId,
+        metaDataSearch: metaDataSearch(false),
+        metaDataCaseInsensitiveSearch: metaDataSearch(true),
+        attachment: filter.attachment,
+        error: filter.error,
+        pageSize,
+        ...writerOptions,
+        contentType: writerOptions.contentType ? displayName(writerOptions.contentType) : undefined,
+      };
+      for (const cs of filter.contentSearch || []) {
+        const name = displayName(cs.contentType).replace(/\s/g, '');
+        params[`${name[0].toLowerCase()}${name.slice(1)}ContentSearch`] = cs.searches;
+      }
+
+      const response = await this.client.post(`/channels/${channelId}/messages/_export`, null, {
+        params,
+        paramsSerializer: { indexes: null }
+      });
+      return this.parseLong(response.data);
+    } catch (error) {
+      this.handleError(error, `Failed to export messages for channel ${channelId}`);
+    }
+  }
+
+  // Imports a serialized message without processing it through the channel
+  async importMessage(channelId: string, messageXml: string): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/messages/_import`, messageXml, {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to import message into channel ${channelId}`);
+    }
+  }
+
+  // Imports messages from a path on the Mirth server host
+  async importMessagesFromPath(channelId: string, serverPath: string, includeSubfolders: boolean = false): Promise<{ totalCount: number; successCount: number }> {
+    try {
+      const response = await this.client.post(`/channels/${channelId}/messages/_importFromPath`, serverPath, {
+        headers: { 'Content-Type': 'text/plain' },
+        params: { includeSubfolders }
+      });
+      return response.data?.messageImportResult || response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to import messages from ${serverPath} into channel ${channelId}`);
+    }
+  }
+
+  // Channel Groups
+  async getChannelGroups(): Promise<unknown[]> {
+    try {
+      const response = await this.client.get('/channelgroups');
+      return response.data?.set?.channelGroup || response.data || [];
+    } catch (error) {
+      this.handleError(error, 'Failed to get channel groups');
+    }
+  }
+
+  async getChannelGroupsXml(): Promise<string> {
+    try {
+      const response = await this.client.get('/channelgroups', {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get channel groups XML');
+    }
+  }
+
+  // Replaces the full group set - channels missing from every group fall back to the Default Group
+  async bulkUpdateChannelGroups(groups: ChannelGroup[], removedGroupIds: string[] = [], override: boolean = true): Promise<boolean> {
+    const groupsXml = '<set>' + groups.map(g =>
+      '<channelGroup>' +
+      `<id>${escapeXml(g.id)}</id>` +
+      `<name>${escapeXml(g.name)}</name>` +
+      (g.revision !== undefined ? `<revision>${g.revision}</revision>` : '') +
+      `<description>${escapeXml(g.description || '')}</description>` +
+      '<channels>' +
+      g.channelIds.map(id => `<channel><id>${escapeXml(id)}</id><revision>0</revision></channel>`).join('') +
+      '</channels>' +
+      '</channelGroup>'
+    ).join('') + '</set>';
+    return this.bulkUpdateChannelGroupsXml(groupsXml, removedGroupIds, override);
+  }
+
+  // The server answers false when nothing was saved (e.g. a revision conflict without override)
+  async bulkUpdateChannelGroupsXml(groupsXml: string, removedGroupIds: string[] = [], override: boolean = true): Promise<boolean> {
+    let saved: boolean;
+    try {
+      const removedXml = '<set>' + removedGroupIds.map(id => `<string>${escapeXml(id)}</string>`).join('') + '</set>';
+      const form = new FormData();
+      form.append('channelGroups', new Blob([groupsXml], { type: 'application/xml' }));
+      form.append('removedChannelGroupIds', new Blob([removedXml], { type: 'application/xml' }));
+
+      const response = await this.client.post('/channelgroups/_bulkUpdate', form, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        params: { override }
+      });
+      const result = response.data?.boolean ?? response.data;
+      saved = response.status === 204 || result === true || result === 'true';
+    } catch (error) {
+      this.handleError(error, 'Failed to update channel groups');
+    }
+    if (!saved) {
+      throw new Error(`Failed to update channel groups: the server did not save the changes${override ? '' : ' (they may have been modified by someone else; retry with override)'}`);
     }
+    return saved;
   }
 
-  async getMessage(channelId: string, messageId: number): Promise<MessageSearchResult> {
+  // Channel Dependencies
+  async getChannelDependencies(): Promise<unknown[]> {
     try {
-      const response = await this.client.get(`/channels/${channelId}/messages/${messageId}`);
-      return response.data;
+      const response = await this.client.get('/server/channelDependencies');
+      return response.data?.set?.channelDependency || response.data || [];
     } catch (error) {
-      this.handleError(error, `Failed to get message ${messageId} for channel ${channelId}`);
+      this.handleError(error, 'Failed to get channel dependencies');
     }
   }
 
-  async getMessageContent(channelId: string, messageId: number, metaDataId: number): Promise<ConnectorMessage> {
+  async getChannelDependenciesXml(): Promise<string> {
     try {
-      const response = await this.client.get(`/channels/${channelId}/messages/${messageId}/connectorMessages/${metaDataId}`);
+      const response = await this.client.get('/server/channelDependencies', {
+        headers: { 'Accept': 'application/xml' }
+      });
       return response.data;
     } catch (error) {
-      this.handleError(error, `Failed to get message content for message ${messageId}`);
+      this.handleError(error, 'Failed to get channel dependencies XML');
     }
   }
 
-  async reprocessMessage(channelId: string, messageId: number, replace: boolean = false): Promise<boolean> {
+  // Replaces the full dependency set
+  async updateChannelDependencies(dependencies: ChannelDependency[]): Promise<boolean> {
+    const dependenciesXml = '<set>' + dependencies.map(d =>
+      '<channelDependency>' +
+      `<dependentId>${escapeXml(d.dependentId)}</dependentId>` +
+      `<dependencyId>${escapeXml(d.dependencyId)}</dependencyId>` +
+      '</channelDependency>'
+    ).join('') + '</set>';
+    return this.updateChannelDependenciesXml(dependenciesXml);
+  }
+
+  async updateChannelDependenciesXml(dependenciesXml: string): Promise<boolean> {
     try {
-      const response = await this.client.post(`/channels/${channelId}/messages/_reprocess`, null, {
-        params: { minMessageId: messageId, maxMessageId: messageId, replace }
+      const response = await this.client.put('/server/channelDependencies', dependenciesXml, {
+        headers: { 'Content-Type': 'application/xml' }
       });
       return response.status === 204 || response.status === 200;
     } catch (error) {
-      this.handleError(error, `Failed to reprocess message ${messageId}`);
+      this.handleError(error, 'Failed to update channel dependencies');
     }
   }
 
-  async clearMessages(channelId: string, params?: {
-    clearStatistics?: boolean;
-    restartRunningChannels?: boolean;
-  }): Promise<boolean> {
+  // Channel Tags
+  async getChannelTags(): Promise<unknown[]> {
     try {
-      const response = await this.client.delete(`/channels/${channelId}/messages`, { params });
-      return response.status === 204 || response.status === 200;
+      const response = await this.client.get('/server/channelTags');
+      return response.data?.set?.channelTag || response.data || [];
     } catch (error) {
-      this.handleError(error, `Failed to clear messages for channel ${channelId}`);
+      this.handleError(error, 'Failed to get channel tags');
     }
   }
 
-  // Channel Groups
-  async getChannelGroups(): Promise<unknown[]> {
+  async getChannelTagsXml(): Promise<string> {
     try {
-      const response = await this.client.get('/channelgroups');
-      return response.data?.set?.channelGroup || response.data || [];
+      const response = await this.client.get('/server/channelTags', {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
     } catch (error) {
-      this.handleError(error, 'Failed to get channel groups');
+      this.handleError(error, 'Failed to get channel tags XML');
+    }
+  }
+
+  // Replaces the full tag set
+  async updateChannelTags(tags: ChannelTag[]): Promise<boolean> {
+    const tagsXml = '<set>' + tags.map(t => {
+      const color = t.backgroundColor || { red: 128, green: 128, blue: 128, alpha: 255 };
+      return '<channelTag>' +
+        `<id>${escapeXml(t.id)}</id>` +
+        `<name>${escapeXml(t.name)}</name>` +
+        '<channelIds>' + t.channelIds.map(id => `<string>${escapeXml(id)}</string>`).join('') + '</channelIds>' +
+        `<backgroundColor><red>${color.red}</red><green>${color.green}</green><blue>${color.blue}</blue><alpha>${color.alpha}</alpha></backgroundColor>` +
+        '</channelTag>';
+    }).join('') + '</set>';
+    return this.updateChannelTagsXml(tagsXml);
+  }
+
+  async updateChannelTagsXml(tagsXml: string): Promise<boolean> {
+    try {
+      const response = await this.client.put('/server/channelTags', tagsXml, {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to update channel tags');
     }
   }
 
@@ -636,6 +1900,94 @@ export class MirthClient {
     }
   }
 
+  async getAlert(alertId: string): Promise<Record<string, unknown>> {
+    try {
+      const response = await this.client.get(`/alerts/${alertId}`);
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get alert ${alertId}`);
+    }
+  }
+
+  async getAlertXml(alertId: string): Promise<string> {
+    try {
+      const response = await this.client.get(`/alerts/${alertId}`, {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, `Failed to get alert XML ${alertId}`);
+    }
+  }
+
+  async createAlert(alertXml: string): Promise<boolean> {
+    try {
+      const response = await this.client.post('/alerts', alertXml, {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to create alert');
+    }
+  }
+
+  async updateAlert(alertId: string, alertXml: string): Promise<boolean> {
+    try {
+      const response = await this.client.put(`/alerts/${alertId}`, alertXml, {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to update alert ${alertId}`);
+    }
+  }
+
+  async deleteAlert(alertId: string): Promise<boolean> {
+    try {
+      const response = await this.client.delete(`/alerts/${alertId}`);
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to delete alert ${alertId}`);
+    }
+  }
+
+  async enableAlert(alertId: string): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/alerts/${alertId}/_enable`);
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to enable alert ${alertId}`);
+    }
+  }
+
+  async disableAlert(alertId: string): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/alerts/${alertId}/_disable`);
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to disable alert ${alertId}`);
+    }
+  }
+
+  async getAlertStatuses(): Promise<AlertStatus[]> {
+    try {
+      const response = await this.client.get('/alerts/statuses');
+      return response.data?.list?.alertStatus || response.data || [];
+    } catch (error) {
+      this.handleError(error, 'Failed to get alert statuses');
+    }
+  }
+
+  // Protocol options for alert actions (e.g. Channel, User recipients)
+  async getAlertOptions(): Promise<Record<string, unknown>> {
+    try {
+      const response = await this.client.get('/alerts/options');
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get alert options');
+    }
+  }
+
   // System
   async getGlobalScripts(): Promise<Record<string, unknown>> {
     try {
@@ -668,6 +2020,37 @@ export class MirthClient {
     }
   }
 
+  // Full server configuration: channels, groups, tags, code templates, alerts, users, scripts,
+  // configuration map, dependencies, resources and settings
+  async getServerConfigurationXml(): Promise<string> {
+    try {
+      const response = await this.client.get('/server/configuration', {
+        headers: { 'Accept': 'application/xml' },
+        timeout: 300000
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get server configuration');
+    }
+  }
+
+  // Replaces the entire server configuration - resources missing from the XML are removed
+  async restoreServerConfiguration(configurationXml: string, options: {
+    deploy?: boolean;
+    overwriteConfigMap?: boolean;
+  } = {}): Promise<boolean> {
+    try {
+      const response = await this.client.put('/server/configuration', configurationXml, {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { deploy: options.deploy ?? false, overwriteConfigMap: options.overwriteConfigMap ?? false },
+        timeout: 300000
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to restore server configuration');
+    }
+  }
+
   async getConfigurationMap(): Promise<Record<string, unknown>> {
     try {
       const response = await this.client.get('/server/configurationMap');
@@ -677,6 +2060,271 @@ export class MirthClient {
     }
   }
 
+  async getConfigurationMapXml(): Promise<string> {
+    try {
+      const response = await this.client.get('/server/configurationMap', {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get configuration map XML');
+    }
+  }
+
+  // Replaces the whole configuration map
+  async updateConfigurationMap(entries: Record<string, { value: string; comment?: string }>): Promise<boolean> {
+    const mapXml = '<map>' + Object.entries(entries).map(([key, property]) =>
+      '<entry>' +
+      `<string>${escapeXml(key)}</string>` +
+      '<com.mirth.connect.util.ConfigurationProperty>' +
+      `<value>${escapeXml(property.value)}</value>` +
+      `<comment>${escapeXml(property.comment || '')}</comment>` +
+      '</com.mirth.connect.util.ConfigurationProperty>' +
+      '</entry>'
+    ).join('') + '</map>';
+    return this.updateConfigurationMapXml(mapXml);
+  }
+
+  async updateConfigurationMapXml(mapXml: string): Promise<boolean> {
+    try {
+      const response = await this.client.put('/server/configurationMap', mapXml, {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to update configuration map');
+    }
+  }
+
+  // Database Tasks (maintenance tasks such as index creation after upgrades)
+  async getDatabaseTasks(): Promise<DatabaseTask[]> {
+    try {
+      const response = await this.client.get('/databaseTasks');
+      const entries = response.data?.map?.entry;
+      const rawTasks = entries !== undefined
+        ? [entries].flat().map((entry: Record<string, unknown>) => entry.databaseTask)
+        : Object.values(response.data || {});
+      return (rawTasks as Record<string, unknown>[])
+        .filter(task => task && typeof task === 'object')
+        .map(task => this.parseDatabaseTask(task));
+    } catch (error) {
+      this.handleError(error, 'Failed to get database tasks');
+    }
+  }
+
+  async getDatabaseTask(taskId: string): Promise<DatabaseTask> {
+    try {
+      const response = await this.client.get(`/databaseTasks/${taskId}`);
+      return this.parseDatabaseTask(response.data?.databaseTask || response.data || {});
+    } catch (error) {
+      this.handleError(error, `Failed to get database task ${taskId}`);
+    }
+  }
+
+  // Runs synchronously on the server - returns the task's result message
+  async runDatabaseTask(taskId: string): Promise<string> {
+    try {
+      const response = await this.client.post(`/databaseTasks/${taskId}/_run`, null, {
+        headers: { 'Accept': 'text/plain' },
+        timeout: 0
+      });
+      return String(response.data ?? '');
+    } catch (error) {
+      this.handleError(error, `Failed to run database task ${taskId}`);
+    }
+  }
+
+  async cancelDatabaseTask(taskId: string): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/databaseTasks/${taskId}/_cancel`);
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to cancel database task ${taskId}`);
+    }
+  }
+
+  // Resources (custom library directories loaded by channels, connectors and global scripts)
+  // XML keeps each resource's plugin-specific class, which the server needs on update
+  async getResourcesXml(): Promise<string> {
+    try {
+      const response = await this.client.get('/server/resources', {
+        headers: { 'Accept': 'application/xml' }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error, 'Failed to get resources XML');
+    }
+  }
+
+  // Replaces the full resource list
+  async updateResourcesXml(resourcesXml: string): Promise<boolean> {
+    try {
+      const response = await this.client.put('/server/resources', resourcesXml, {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to update resources');
+    }
+  }
+
+  async reloadResource(resourceId: string): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/server/resources/${encodeURIComponent(resourceId)}/_reload`);
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to reload resource ${resourceId}`);
+    }
+  }
+
+  // Library files (JARs) currently loaded by a Directory Resource
+  async getDirectoryResourceLibraries(resourceId: string): Promise<string[]> {
+    try {
+      const response = await this.client.get(`/extensions/directoryresource/resources/${encodeURIComponent(resourceId)}/libraries`);
+      const libraries = response.data?.list?.string ?? response.data ?? [];
+      return [libraries].flat().filter(lib => typeof lib === 'string' && lib.length > 0);
+    } catch (error) {
+      this.handleError(error, `Failed to get libraries for resource ${resourceId}`);
+    }
+  }
+
+  // Channel metadata (enabled flag, pruning settings) keyed by channel ID
+  async getChannelMetadata(): Promise<Record<string, Record<string, unknown>>> {
+    try {
+      const response = await this.client.get('/server/channelMetadata');
+      const entries = response.data?.map?.entry;
+      if (entries === undefined) {
+        return response.data || {};
+      }
+      const metadata: Record<string, Record<string, unknown>> = {};
+      for (const entry of [entries].flat()) {
+        if (entry && entry.string !== undefined) {
+          metadata[String(entry.string)] = entry.channelMetadata || {};
+        }
+      }
+      return metadata;
+    } catch (error) {
+      this.handleError(error, 'Failed to get channel metadata');
+    }
+  }
+
+  // Data Pruner (Extension)
+  // Status keys include lastProcess, currentState, currentProcess, nextProcess and isRunning
+  async getDataPrunerStatus(): Promise<Record<string, string>> {
+    try {
+      const response = await this.client.get('/extensions/datapruner/status');
+      const entries = response.data?.map?.entry;
+      if (entries === undefined) {
+        return response.data || {};
+      }
+      const status: Record<string, string> = {};
+      for (const entry of [entries].flat()) {
+        const pair = entry?.string;
+        if (Array.isArray(pair)) {
+          status[String(pair[0])] = pair[1] === undefined ? '' : String(pair[1]);
+        }
+      }
+      return status;
+    } catch (error) {
+      this.handleError(error, 'Failed to get data pruner status');
+    }
+  }
+
+  // Returns the start time reported by the server
+  async startDataPruner(): Promise<string> {
+    try {
+      const response = await this.client.post('/extensions/datapruner/_start');
+      const data = response.data;
+      return typeof data === 'object' && data !== null
+        ? String(Object.values(data)[0] ?? '')
+        : String(data ?? '');
+    } catch (error) {
+      this.handleError(error, 'Failed to start data pruner');
+    }
+  }
+
+  async stopDataPruner(): Promise<boolean> {
+    try {
+      const response = await this.client.post('/extensions/datapruner/_stop');
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, 'Failed to stop data pruner');
+    }
+  }
+
+  // Extensions (installed connectors and plugins)
+  async getConnectorExtensions(): Promise<ExtensionInfo[]> {
+    try {
+      const response = await this.client.get('/extensions/connectors');
+      return this.parseExtensionMap(response.data, 'connector');
+    } catch (error) {
+      this.handleError(error, 'Failed to get connector extensions');
+    }
+  }
+
+  async getPluginExtensions(): Promise<ExtensionInfo[]> {
+    try {
+      const response = await this.client.get('/extensions/plugins');
+      return this.parseExtensionMap(response.data, 'plugin');
+    } catch (error) {
+      this.handleError(error, 'Failed to get plugin extensions');
+    }
+  }
+
+  async isExtensionEnabled(extensionName: string): Promise<boolean> {
+    try {
+      const response = await this.client.get(`/extensions/${encodeURIComponent(extensionName)}/enabled`);
+      return response.data === true || response.data === 'true' || response.data?.boolean === true;
+    } catch (error) {
+      this.handleError(error, `Failed to get enabled state of extension ${extensionName}`);
+    }
+  }
+
+  // Takes effect after the server restarts
+  async setExtensionEnabled(extensionName: string, enabled: boolean): Promise<boolean> {
+    try {
+      const response = await this.client.post(`/extensions/${encodeURIComponent(extensionName)}/_setEnabled`, null, {
+        params: { enabled }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to set enabled state of extension ${extensionName}`);
+    }
+  }
+
+  // Properties are exchanged as XStream-serialized java.util.Properties (<property name="" value=""/>)
+  async getExtensionProperties(extensionName: string, propertyKeys?: string[]): Promise<Record<string, string>> {
+    try {
+      const response = await this.client.get(`/extensions/${encodeURIComponent(extensionName)}/properties`, {
+        headers: { 'Accept': 'application/xml' },
+        params: { propertyKeys },
+        paramsSerializer: { indexes: null }
+      });
+      const properties: Record<string, string> = {};
+      for (const match of String(response.data || '').matchAll(/<property\s+name="([^"]*)"(?:\s+value="([^"]*)")?\s*\/?>/g)) {
+        properties[unescapeXml(match[1])] = unescapeXml(match[2] || '');
+      }
+      return properties;
+    } catch (error) {
+      this.handleError(error, `Failed to get properties of extension ${extensionName}`);
+    }
+  }
+
+  async setExtensionProperties(extensionName: string, properties: Record<string, string>, mergeProperties: boolean = true): Promise<boolean> {
+    try {
+      const propertiesXml = '<properties>' + Object.entries(properties).map(([key, value]) =>
+        `<property name="${escapeXml(key)}" value="${escapeXml(value)}"/>`
+      ).join('') + '</properties>';
+      const response = await this.client.put(`/extensions/${encodeURIComponent(extensionName)}/properties`, propertiesXml, {
+        headers: { 'Content-Type': 'application/xml' },
+        params: { mergeProperties }
+      });
+      return response.status === 204 || response.status === 200;
+    } catch (error) {
+      this.handleError(error, `Failed to update properties of extension ${extensionName}`);
+    }
+  }
+
   // Server Logs (Extension)
   async getServerLogs(params: {
     fetchSize: number;